@@ -1,49 +1,277 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Upload, Play, Pause, RotateCcw, Wand2, AlertCircle, HardDrive, Cpu, ShieldCheck, Activity, Info, Layers } from 'lucide-react';
-import { Visualizer } from './components/Visualizer';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Upload, Play, Pause, RotateCcw, Repeat, Wand2, AlertCircle, HardDrive, Cpu, ShieldCheck, Activity, Info, Layers, FolderOpen, Disc3 } from 'lucide-react';
+import { Visualizer, SpectrumOverlay } from './components/Visualizer';
+import { Goniometer } from './components/Goniometer';
+import { WaveformOverview } from './components/WaveformOverview';
 import { AnalysisPanel } from './components/AnalysisPanel';
 import { StemSlider } from './components/StemSlider';
-import { AudioAnalysis, StemControl } from './types';
-import { audioEngine } from './services/audioEngine';
-import { analyzeAudioContent } from './services/geminiService';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { RevisionDiffPanel } from './components/RevisionDiffPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { MasteringChain } from './components/MasteringChain';
+import { BatchPanel } from './components/BatchPanel';
+import { AnalysisPayload, AnalysisProgress, AnalysisProviderId, AudioAnalysis, BatchTrack, ChatMessage, DeliveryMeasurements, DeliveryProfileId, EqMove, HunterBand, LoopRegion, LoudnessMetrics, MixIssue, MusicalMetrics, NormalizationPlatformId, PlaybackSource, Project, Revision, SongSection, SpectrumProfile, StemControl, StereoMetrics, WaveformPeaks } from './types';
+import { audioEngine, HUNTER_Q } from './services/audioEngine';
+import { ANALYSIS_PROVIDERS, getAnalysisProvider, getChatProvider, defaultAnalysisProvider } from './services/analysisProviders';
+import { AnalysisError, toAnalysisError } from './services/analysisErrors';
+import { formatBytes, prepareAnalysisPayload } from './services/analysisPayload';
+import { exportStemWav } from './services/stemExport';
+import { buildMixReport, downloadReport, ReportFormat } from './services/mixReport';
+import { describeEqMove, eqMoveForIssue } from './services/fixEq';
+import { measureLoudness } from './services/loudness';
+import { measureDelivery } from './services/deliveryQc';
+import { DEFAULT_DELIVERY_PROFILE } from './services/deliveryProfiles';
+import { createBatchTrack, runBatch } from './services/batchAnalysis';
+import { buildNormalization, getNormalizationPlatform, NORMALIZATION_PLATFORMS } from './services/normalization';
+import { analyzeStereo } from './services/stereo';
+import { analyzeMusical } from './services/musicalAnalysis';
+import { computeLongTermSpectrum, offsetSpectrum } from './services/spectrum';
+import { computePeaks } from './services/waveform';
+import { detectSections } from './services/sections';
+import { deleteProject, deleteRevision, findOrCreateProject, getRevision, hashFile, listProjects, listRevisions, projectNameFromFile, renameProject, saveRevision, updateRevision } from './services/projectStore';
+import { buildStemDefs, defaultCrossover, formatHz, normalizeCrossover, DEFAULT_CROSSOVER, MIN_BANDS, MAX_BANDS } from './services/crossover';
+import { WavBitDepth } from './services/wavEncoder';
 
-// Stem Definitions
-const STEM_DEFS: StemControl[] = [
-    { id: 'low', name: 'Low / Bass', color: 'bg-red-500', frequencyRange: '20Hz - 250Hz' },
-    { id: 'mid', name: 'Mids / Vocals', color: 'bg-yellow-500', frequencyRange: '250Hz - 4kHz' },
-    { id: 'high', name: 'Highs / Air', color: 'bg-green-500', frequencyRange: '4kHz - 20kHz' },
-];
+// Slider grid per band count (full class names so Tailwind picks them up)
+const STEM_GRID_COLS: Record<number, string> = {
+    2: 'grid-cols-2',
+    3: 'grid-cols-2 md:grid-cols-3',
+    4: 'grid-cols-2 md:grid-cols-4',
+    5: 'grid-cols-2 md:grid-cols-3 lg:grid-cols-5',
+    6: 'grid-cols-2 md:grid-cols-3 lg:grid-cols-6',
+};
+
+const LIBRARY_SAVE_DELAY_MS = 500;
+const MARK_CUT_DB = -3; // Starting cut suggested for a resonance marked by ear
 
 const App: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
   
   const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
+  const [analysisEngine, setAnalysisEngine] = useState<AnalysisProviderId | null>(null);  // Provider that produced `analysis`
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+  const [auditionFix, setAuditionFix] = useState<number | null>(null);
+  const [hunter, setHunter] = useState<HunterBand | null>(null);
+  const [auditionBypassed, setAuditionBypassed] = useState(false);
+  const [chatSending, setChatSending] = useState(false);
+  const chatAbort = useRef<AbortController | null>(null);
+  const [chatError, setChatError] = useState<AnalysisError | null>(null);
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
+  const [loudness, setLoudness] = useState<LoudnessMetrics | null>(null);
+  const [delivery, setDelivery] = useState<DeliveryMeasurements | null>(null);
+  const [deliveryProfile, setDeliveryProfile] = useState<DeliveryProfileId>(DEFAULT_DELIVERY_PROFILE);
+  const [stereo, setStereo] = useState<StereoMetrics | null>(null);
+  const [musical, setMusical] = useState<MusicalMetrics | null>(null);
+  const [mixSpectrum, setMixSpectrum] = useState<SpectrumProfile | null>(null);
+  const [sections, setSections] = useState<SongSection[] | null>(null);
+
+  // A/B Reference State
+  const [referenceFile, setReferenceFile] = useState<File | null>(null);
+  const [referenceLoudness, setReferenceLoudness] = useState<LoudnessMetrics | null>(null);
+  const [referenceSpectrum, setReferenceSpectrum] = useState<SpectrumProfile | null>(null);
+  const [activeSource, setActiveSource] = useState<PlaybackSource>('mix');
+  const [loadingReference, setLoadingReference] = useState(false);
+  const [normalizationPlatform, setNormalizationPlatform] = useState<NormalizationPlatformId | null>(null);
+  const [masteringActive, setMasteringActive] = useState(() => audioEngine.isMasteringActive());
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [providerId, setProviderId] = useState<AnalysisProviderId>(defaultAnalysisProvider);
+  const [payload, setPayload] = useState<AnalysisPayload | null>(null);
+  const [preparingPayload, setPreparingPayload] = useState(false);
   const [loadingAudio, setLoadingAudio] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
   // Stem State
-  const [stemVolumes, setStemVolumes] = useState({ low: 1, mid: 1, high: 1 });
-  const [stemMutes, setStemMutes] = useState({ low: false, mid: false, high: false });
+  const [crossover, setCrossover] = useState<number[]>(DEFAULT_CROSSOVER);
+  const [stemVolumes, setStemVolumes] = useState<Record<string, number>>({});
+  const [stemMutes, setStemMutes] = useState<Record<string, boolean>>({});
+  const stemDefs = useMemo(() => buildStemDefs(crossover), [crossover]);
+  const [exportBitDepth, setExportBitDepth] = useState<WavBitDepth>(24);
+  const [exportWithFader, setExportWithFader] = useState(false);
+
+  // Project Library State
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [activeHash, setActiveHash] = useState<string | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [compareHash, setCompareHash] = useState<string | null>(null);
+
+  // Album/EP Batch State
+  const [batchOpen, setBatchOpen] = useState(false);
+  const [batchTracks, setBatchTracks] = useState<BatchTrack[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const batchAbort = useRef<AbortController | null>(null);
+
+  // Revision indices to diff (older first), while both are in the open project
+  const comparePair = useMemo(() => {
+      const a = revisions.findIndex(r => r.hash === compareHash);
+      const b = revisions.findIndex(r => r.hash === activeHash);
+      if (a < 0 || b < 0 || a === b) return null;
+      return a < b ? [a, b] : [b, a];
+  }, [revisions, compareHash, activeHash]);
 
-  const requestRef = useRef<number | null>(null);
+  /** Abandons any analysis or chat request in flight; its result will not be applied. */
+  const cancelRequests = () => {
+      analysisAbort.current?.abort();
+      analysisAbort.current = null;
+      chatAbort.current?.abort();
+      chatAbort.current = null;
+      setIsAnalyzing(false);
+      setAnalysisProgress(null);
+      setChatSending(false);
+  };
+
+  const resetMixState = () => {
+      cancelRequests();
+      setErrorMsg(null);
+      setAnalysis(null);
+      setAnalysisEngine(null);
+      setAnalysisError(null);
+      setChatError(null);
+      setAuditionFix(null);
+      setHunter(null);
+      setPayload(null);
+      setLoudness(null);
+      setDelivery(null);
+      setStereo(null);
+      setMusical(null);
+      setMixSpectrum(null);
+      setSections(null);
+      setPeaks(null);
+      setLoopRegion(null);
+      setLoopEnabled(false);
+  };
+
+  const refreshLibrary = async (projectId: string | null) => {
+      try {
+          setProjects(await listProjects());
+          setRevisions(projectId ? await listRevisions(projectId) : []);
+      } catch (err) {
+          console.error(err);
+      }
+  };
+
+  /** Reopens a stored revision with its measurements, console settings and analysis. */
+  const openRevision = async (revision: Revision) => {
+      const mixFile = new File([revision.audio], revision.fileName, { type: revision.mimeType });
+      setFile(mixFile);
+      setLoadingAudio(true);
+      resetMixState();
+      // Set last, so the settings auto-save never sees this hash with the previous song's console
+      setActiveHash(null);
+      setActiveProjectId(revision.projectId);
+
+      try {
+          const buffer = await audioEngine.loadFile(mixFile);
+          setPeaks(computePeaks(buffer));
+          const spectrum = revision.spectrum ?? computeLongTermSpectrum(buffer);
+          // Metrics stored before overs were counted are measured again
+          const storedLoudness = revision.loudness?.interSampleOvers !== undefined ? revision.loudness : measureLoudness(buffer);
+          setLoudness(storedLoudness);
+          setDelivery(await measureDelivery(mixFile, buffer, storedLoudness));
+          setMixSpectrum(spectrum);
+          setMusical(revision.musical ?? await analyzeMusical(buffer));
+          setSections(revision.sections ?? await detectSections(buffer, spectrum));
+          setStereo(revision.stereo ?? await analyzeStereo(buffer, revision.stems.crossover));
+          setAnalysis(revision.analysis);
+          setAnalysisEngine(revision.providerId);
+          if (revision.providerId) setProviderId(revision.providerId);
+
+          const { crossover: storedCrossover, volumes, mutes } = revision.stems;
+          applyCrossover(storedCrossover);
+          setStemVolumes(volumes);
+          setStemMutes(mutes);
+          buildStemDefs(storedCrossover).forEach(stem => {
+              audioEngine.setStemVolume(stem.index, volumes[stem.id] ?? 1);
+              audioEngine.setStemMute(stem.index, mutes[stem.id] ?? false);
+          });
+          setLoopRegion(revision.loop);
+          setActiveHash(revision.hash);
+      } catch (err) {
+          console.error(err);
+          setFile(null);
+          setErrorMsg("Failed to reopen the stored revision.");
+      } finally {
+          setLoadingAudio(false);
+      }
+      refreshLibrary(revision.projectId);
+  };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  /** Loads a new mix; it joins `targetProjectId` when given (the library's "Add revision"), else the project named after the file. */
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, targetProjectId: string | null = null) => {
     if (e.target.files && e.target.files[0]) {
       const uploadedFile = e.target.files[0];
+      e.target.value = '';
+
+      // Same audio as a stored revision: reopen it instead of measuring & paying for analysis again
+      let hash: string | null = null;
+      try {
+        hash = await hashFile(uploadedFile);
+        const existing = await getRevision(hash);
+        if (existing) {
+          await openRevision(existing);
+          return;
+        }
+      } catch (err) {
+        console.error(err);
+      }
+
       setFile(uploadedFile);
       setLoadingAudio(true);
-      setErrorMsg(null);
-      setAnalysis(null);
+      resetMixState();
+      setActiveHash(null);
       
       try {
         const buffer = await audioEngine.loadFile(uploadedFile);
-        setDuration(buffer.duration);
-        setIsPlaying(false);
-        setCurrentTime(0);
+        setPeaks(computePeaks(buffer));
+        const measuredLoudness = measureLoudness(buffer);
+        setLoudness(measuredLoudness);
+        setDelivery(await measureDelivery(uploadedFile, buffer, measuredLoudness));
+        const spectrum = computeLongTermSpectrum(buffer);
+        setMixSpectrum(spectrum);
+        const measuredStereo = await analyzeStereo(buffer, crossover);
+        setStereo(measuredStereo);
+        const measuredMusical = await analyzeMusical(buffer);
+        setMusical(measuredMusical);
+        const detectedSections = await detectSections(buffer, spectrum);
+        setSections(detectedSections);
+
+        if (hash) {
+          try {
+            const projectId = targetProjectId ?? (await findOrCreateProject(projectNameFromFile(uploadedFile.name))).id;
+            await saveRevision({
+              hash,
+              projectId,
+              fileName: uploadedFile.name,
+              mimeType: uploadedFile.type,
+              size: uploadedFile.size,
+              audio: uploadedFile,
+              createdAt: Date.now(),
+              analysis: null,
+              providerId: null,
+              loudness: measuredLoudness,
+              stereo: measuredStereo,
+              musical: measuredMusical,
+              spectrum,
+              sections: detectedSections,
+              loop: null,
+              stems: { crossover, volumes: stemVolumes, mutes: stemMutes },
+            });
+            setActiveProjectId(projectId);
+            setActiveHash(hash);
+            refreshLibrary(projectId);
+          } catch (err) {
+            // Storage is a convenience; a full disk must not block the session
+            console.error(err);
+          }
+        }
       } catch (err) {
         console.error(err);
         setFile(null);
@@ -54,96 +282,451 @@ const App: React.FC = () => {
     }
   };
 
+  const handleNewProject = () => {
+      audioEngine.stop();
+      setFile(null);
+      resetMixState();
+      setActiveHash(null);
+      setActiveProjectId(null);
+      setRevisions([]);
+  };
+
+  const handleSelectProject = async (projectId: string) => {
+      try {
+          const projectRevisions = await listRevisions(projectId);
+          setActiveProjectId(projectId);
+          setRevisions(projectRevisions);
+          // Open the latest mix of the song, or wait for its first upload
+          if (projectRevisions.length > 0) {
+              await openRevision(projectRevisions[projectRevisions.length - 1]);
+          } else {
+              audioEngine.stop();
+              setFile(null);
+              resetMixState();
+              setActiveHash(null);
+          }
+      } catch (err) {
+          console.error(err);
+      }
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+      try {
+          await deleteProject(projectId);
+          if (projectId === activeProjectId) handleNewProject();
+          refreshLibrary(projectId === activeProjectId ? null : activeProjectId);
+      } catch (err) {
+          console.error(err);
+      }
+  };
+
+  const handleDeleteRevision = async (hash: string) => {
+      await deleteRevision(hash);
+      if (hash === activeHash) setActiveHash(null);
+      refreshLibrary(activeProjectId);
+  };
+
+  const handleRenameProject = async (projectId: string, name: string) => {
+      try {
+          await renameProject(projectId, name);
+      } catch (err) {
+          console.error(err);
+      }
+      refreshLibrary(activeProjectId);
+  };
+
+  const handleBatchUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files ?? []);
+      e.target.value = '';
+      // One batch at a time, so the running one always stays cancellable
+      if (files.length === 0 || batchAbort.current) return;
+
+      const queued = files.map(createBatchTrack);
+      setBatchTracks(prev => [...prev, ...queued]);
+      const controller = new AbortController();
+      batchAbort.current = controller;
+      setBatchRunning(true);
+      try {
+          await runBatch(queued, {
+              providerId,
+              signal: controller.signal,
+              onUpdate: (id, changes) => setBatchTracks(prev => prev.map(t => (t.id === id ? { ...t, ...changes } : t))),
+          });
+      } finally {
+          if (batchAbort.current === controller) batchAbort.current = null;
+          setBatchRunning(false);
+          refreshLibrary(activeProjectId);
+      }
+  };
+
+  const handleCancelBatch = () => {
+      batchAbort.current?.abort();
+      batchAbort.current = null;
+  };
+
+  /** Opens a batch track in the player with its stored report. */
+  const handleOpenBatchTrack = async (track: BatchTrack) => {
+      if (!track.hash) return;
+      try {
+          const revision = await getRevision(track.hash);
+          if (revision) await openRevision(revision);
+      } catch (err) {
+          console.error(err);
+      }
+  };
+
+  const handleReferenceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const uploadedFile = e.target.files[0];
+      setLoadingReference(true);
+      setErrorMsg(null);
+
+      try {
+        const buffer = await audioEngine.loadReference(uploadedFile);
+        setReferenceFile(uploadedFile);
+        setReferenceLoudness(measureLoudness(buffer));
+        setReferenceSpectrum(computeLongTermSpectrum(buffer));
+      } catch (err) {
+        console.error(err);
+        setErrorMsg("Failed to decode reference track.");
+      } finally {
+        setLoadingReference(false);
+        e.target.value = '';
+      }
+    }
+  };
+
+  const handleClearReference = () => {
+    audioEngine.clearReference();
+    setReferenceFile(null);
+    setReferenceLoudness(null);
+    setReferenceSpectrum(null);
+  };
+
+  // Gain that brings the reference to the mix's integrated loudness
+  const referenceMatchDb = useMemo(() => {
+    if (!loudness || !referenceLoudness) return 0;
+    const delta = loudness.integrated - referenceLoudness.integrated;
+    return Number.isFinite(delta) ? delta : 0;
+  }, [loudness, referenceLoudness]);
+
+  useEffect(() => {
+    audioEngine.setReferenceGain(referenceMatchDb);
+  }, [referenceMatchDb]);
+
+  // Platform playback gain for each source; off until the mix is measured, and paused while the
+  // mastering chain changes the mix's level away from what was measured
+  const normalization = useMemo(() => {
+    if (!normalizationPlatform || !loudness || masteringActive) return null;
+    return buildNormalization(normalizationPlatform, loudness, referenceLoudness);
+  }, [normalizationPlatform, loudness, referenceLoudness, masteringActive]);
+
+  useEffect(() => {
+    audioEngine.setNormalization(normalization);
+  }, [normalization]);
+
+  const formatGain = (db: number) => `${db >= 0 ? '+' : ''}${db.toFixed(1)} dB`;
+
+  const spectrumOverlay = useMemo<SpectrumOverlay | null>(() => {
+    if (!mixSpectrum || !referenceSpectrum) return null;
+    return { mix: mixSpectrum, reference: offsetSpectrum(referenceSpectrum, referenceMatchDb) };
+  }, [mixSpectrum, referenceSpectrum, referenceMatchDb]);
+
   const handlePlayPause = () => {
     if (!file) return;
     if (isPlaying) {
       audioEngine.pause();
     } else {
       audioEngine.play();
-      // Re-apply volumes on play (simple sync)
-      setTimeout(() => {
-          Object.entries(stemVolumes).forEach(([key, vol]) => {
-              const k = key as 'low' | 'mid' | 'high';
-              audioEngine.setStemVolume(k, stemMutes[k] ? 0 : vol);
-          });
-      }, 50);
     }
-    setIsPlaying(!isPlaying);
   };
 
   const handleStop = () => {
     audioEngine.stop();
-    setIsPlaying(false);
-    setCurrentTime(0);
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
-    setCurrentTime(time);
-    audioEngine.seek(time);
+  const handleLoopChange = (region: LoopRegion, dragging: boolean = false) => {
+    setLoopRegion(region);
+    setLoopEnabled(true);
+    audioEngine.setLoop(region, dragging);
   };
 
-  const handleStemVolumeChange = (id: 'low' | 'mid' | 'high', val: number) => {
-      const newVols = { ...stemVolumes, [id]: val };
+  // Jump to a flagged passage and keep it repeating
+  const handleAudition = (start: number, end: number) => {
+    handleLoopChange({ start, end });
+    audioEngine.seek(start);
+    audioEngine.play();
+  };
+
+  const handleToggleLoop = () => {
+    if (!loopRegion) return;
+    const enabled = !loopEnabled;
+    setLoopEnabled(enabled);
+    audioEngine.setLoop(enabled ? loopRegion : null);
+  };
+
+  const getStemGain = (stem: StemControl) => {
+      return stemMutes[stem.id] ? 0 : (stemVolumes[stem.id] ?? 1);
+  };
+
+  const handleStemVolumeChange = (stem: StemControl, val: number) => {
+      const newVols = { ...stemVolumes, [stem.id]: val };
       setStemVolumes(newVols);
-      if (!stemMutes[id]) {
-          audioEngine.setStemVolume(id, val);
-      }
+      audioEngine.setStemVolume(stem.index, val);
   };
 
-  const handleStemMute = (id: 'low' | 'mid' | 'high') => {
-      const newMutes = { ...stemMutes, [id]: !stemMutes[id] };
+  const handleStemMute = (stem: StemControl) => {
+      const newMutes = { ...stemMutes, [stem.id]: !stemMutes[stem.id] };
       setStemMutes(newMutes);
-      audioEngine.setStemVolume(id, newMutes[id] ? 0 : stemVolumes[id]);
+      audioEngine.setStemMute(stem.index, newMutes[stem.id]);
+  };
+
+  const applyCrossover = (frequencies: number[]) => {
+      setCrossover(frequencies);
+      audioEngine.setCrossover(frequencies);
+  };
+
+  const handleBandCountChange = (bands: number) => {
+      // Band ids change with the layout, so start the new console at unity
+      setStemVolumes({});
+      setStemMutes({});
+      applyCrossover(defaultCrossover(bands));
+  };
+
+  const handleCrossoverFrequencyChange = (index: number, hz: number) => {
+      if (!Number.isFinite(hz)) return;
+      const next = [...crossover];
+      next[index] = hz;
+      applyCrossover(normalizeCrossover(next));
   };
   
-  const handleExportStem = async (id: 'low' | 'mid' | 'high') => {
-      // Mock export for now
-      alert(`Exporting ${id.toUpperCase()} stem... (Feature coming in v1.1)`);
-      await new Promise(r => setTimeout(r, 1000));
+  const handleExportStem = async (stem: StemControl) => {
+      const buffer = audioEngine.getBuffer();
+      if (!file || !buffer) return;
+
+      try {
+          await exportStemWav(buffer, stem, crossover, file.name, {
+              bitDepth: exportBitDepth,
+              gain: exportWithFader ? getStemGain(stem) : 1,
+          });
+      } catch (err) {
+          console.error(err);
+          setErrorMsg(`Failed to export ${stem.name} stem.`);
+      }
   };
 
-  const runAnalysis = async () => {
-    if (!file) return;
+  const handleExportReport = (format: ReportFormat) => {
+      if (!file || !analysis) return;
+      const engine = getAnalysisProvider(analysisEngine ?? providerId);
+      downloadReport(buildMixReport({
+          file,
+          buffer: audioEngine.getBuffer(),
+          hash: activeHash,
+          engine: { id: engine.id, name: engine.name },
+          analysis,
+          loudness,
+          stereo,
+          musical,
+          spectrum: mixSpectrum,
+      }), format);
+  };
+
+  // Band widths follow the crossover, so re-measure when the split points move away from the measured ones
+  useEffect(() => {
+      const buffer = audioEngine.getBuffer();
+      // No measurement yet means a load is in progress, and it measures with its own split
+      if (!buffer || !stereo) return;
+      const measured = stereo.crossover;
+      if (measured.length === crossover.length && measured.every((freq, i) => freq === crossover[i])) return;
+
+      let cancelled = false;
+      analyzeStereo(buffer, crossover)
+          .then(result => { if (!cancelled) setStereo(result); })
+          .catch(err => console.error(err));
+      return () => { cancelled = true; };
+  }, [crossover, stereo]);
+
+  useEffect(() => {
+      refreshLibrary(null);
+  }, []);
+
+  // Keep the open revision's console settings, loop and re-measured stereo in the library
+  useEffect(() => {
+      if (!activeHash) return;
+      const timer = setTimeout(() => {
+          updateRevision(activeHash, {
+              stems: { crossover, volumes: stemVolumes, mutes: stemMutes },
+              loop: loopRegion,
+              ...(stereo ? { stereo } : {}),
+          }).catch(err => console.error(err));
+      }, LIBRARY_SAVE_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [activeHash, crossover, stemVolumes, stemMutes, loopRegion, stereo]);
+
+  // Cloud providers upload a compact copy; build it up front so its size can be shown
+  useEffect(() => {
+      const buffer = audioEngine.getBuffer();
+      if (!loudness || !buffer || !getAnalysisProvider(providerId).requiresNetwork) return;
+
+      let cancelled = false;
+      setPreparingPayload(true);
+      prepareAnalysisPayload(buffer, loudness)
+          .then(result => { if (!cancelled) setPayload(result); })
+          .catch(err => console.error(err))
+          .finally(() => { if (!cancelled) setPreparingPayload(false); });
+      return () => { cancelled = true; };
+  }, [loudness, providerId]);
+
+  const runAnalysis = async (id: AnalysisProviderId = providerId) => {
+    const buffer = audioEngine.getBuffer();
+    if (!file || !buffer) return;
+    cancelRequests();
+    const controller = new AbortController();
+    analysisAbort.current = controller;
     setIsAnalyzing(true);
-    
+    setAnalysisError(null);
+    setAnalysisProgress({ stage: 'preparing' });
+    // Marks made by ear carry over to the new report
+    const marked = analysis?.actionableFixes.filter(fix => fix.userCreated) ?? [];
+
     try {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = async () => {
-        const base64String = (reader.result as string).split(',')[1];
-        const result = await analyzeAudioContent(base64String, file.type);
-        setAnalysis(result);
-        setIsAnalyzing(false);
-      };
-      reader.onerror = () => {
-        setErrorMsg("Failed to read file for analysis.");
-        setIsAnalyzing(false);
-      };
+      const provider = getAnalysisProvider(id);
+      const analyzed = await provider.analyze({
+        file, buffer, loudness, spectrum: mixSpectrum, stereo, musical, sections, payload,
+        signal: controller.signal,
+        onProgress: progress => { if (!controller.signal.aborted) setAnalysisProgress(progress); },
+      });
+      // Cancelled, or another file was opened meanwhile: this result belongs to nobody
+      if (controller.signal.aborted) return;
+      const result = marked.length > 0 ? { ...analyzed, actionableFixes: [...analyzed.actionableFixes, ...marked] } : analyzed;
+      setAnalysis(result);
+      setAnalysisEngine(id);
+      setAuditionFix(null);
+      if (activeHash) {
+        updateRevision(activeHash, { analysis: result, providerId: id })
+          .then(() => refreshLibrary(activeProjectId))
+          .catch(err => console.error(err));
+      }
     } catch (e) {
+      if (controller.signal.aborted) return;
       console.error(e);
-      setErrorMsg("Analysis failed. Please check connection.");
-      setIsAnalyzing(false);
+      setAnalysis(null);
+      setAnalysisError(toAnalysisError(e));
+    } finally {
+      if (analysisAbort.current === controller) {
+        analysisAbort.current = null;
+        setIsAnalyzing(false);
+        setAnalysisProgress(null);
+      }
     }
   };
 
-  const updateProgress = useCallback(() => {
-    if (isPlaying) {
-      setCurrentTime(audioEngine.getCurrentTime());
-      requestRef.current = requestAnimationFrame(updateProgress);
-    }
-  }, [isPlaying]);
+  // The auditioned fix's filter follows the selection and the bypass switch (chat turns leave the fixes untouched)
+  const fixes = analysis?.actionableFixes;
+  useEffect(() => {
+      const fix = auditionFix !== null ? fixes?.[auditionFix] : undefined;
+      const move = fix && !auditionBypassed ? eqMoveForIssue(fix) : null;
+      audioEngine.setAuditionEq(move);
+  }, [fixes, auditionFix, auditionBypassed]);
+
+  const handleAuditionFix = (index: number | null) => {
+      setAuditionFix(index);
+      setAuditionBypassed(false);
+      // Jump to where the problem is heard, if the analysis says
+      const fix = index !== null ? analysis?.actionableFixes[index] : undefined;
+      if (fix?.start !== undefined) handleAudition(fix.start, fix.end ?? fix.start + 5);
+  };
 
   useEffect(() => {
-    if (isPlaying) {
-      requestRef.current = requestAnimationFrame(updateProgress);
-    } else if (requestRef.current) {
-      cancelAnimationFrame(requestRef.current);
+      audioEngine.setHunter(hunter);
+  }, [hunter]);
+
+  const updateFixes = (actionableFixes: MixIssue[]) => {
+      if (!analysis) return;
+      const updated = { ...analysis, actionableFixes };
+      setAnalysis(updated);
+      if (activeHash) {
+        updateRevision(activeHash, { analysis: updated }).catch(err => console.error(err));
+      }
+  };
+
+  /** Adds the hunted frequency to the fixes, with a narrow cut to audition and where it was heard. */
+  const handleMarkHunt = () => {
+      if (!analysis || !hunter) return;
+      const eq: EqMove = { type: 'peaking', frequency: hunter.frequency, gain: MARK_CUT_DB, q: HUNTER_Q };
+      const mark: MixIssue = {
+          severity: 'warning',
+          frequency: formatHz(hunter.frequency),
+          issue: `Resonance marked by ear at ${formatHz(hunter.frequency)}`,
+          fix: `Narrow cut, then adjust by ear: ${describeEqMove(eq)}`,
+          start: audioEngine.getCurrentTime(),
+          eq,
+          userCreated: true,
+      };
+      updateFixes([...analysis.actionableFixes, mark]);
+  };
+
+  const handleRemoveFix = (index: number) => {
+      if (!analysis) return;
+      setAuditionFix(null);
+      updateFixes(analysis.actionableFixes.filter((_, i) => i !== index));
+  };
+
+  const chatProvider = (() => {
+      const provider = getChatProvider(analysisEngine ?? providerId);
+      return provider && provider.isAvailable() ? provider : null;
+  })();
+
+  const handleSendChat = async (message: string): Promise<boolean> => {
+    const buffer = audioEngine.getBuffer();
+    if (!analysis || !buffer || !chatProvider?.chat) return false;
+    const history = analysis.conversation ?? [];
+    const question: ChatMessage = { role: 'user', text: message, createdAt: Date.now() };
+    const controller = new AbortController();
+    chatAbort.current = controller;
+    setAnalysis({ ...analysis, conversation: [...history, question] });
+    setChatSending(true);
+    setChatError(null);
+
+    try {
+      const reply = await chatProvider.chat({ buffer, loudness, stereo, payload, analysis, history, message, signal: controller.signal });
+      if (controller.signal.aborted) return false;
+      const updated = { ...analysis, conversation: [...history, question, reply] };
+      setAnalysis(updated);
+      if (activeHash) {
+        updateRevision(activeHash, { analysis: updated }).catch(err => console.error(err));
+      }
+      return true;
+    } catch (e) {
+      if (controller.signal.aborted) return false;
+      // Drop the unanswered question; the draft stays in the input for a retry
+      setAnalysis({ ...analysis, conversation: history });
+      setChatError(toAnalysisError(e));
+      return false;
+    } finally {
+      if (chatAbort.current === controller) {
+        chatAbort.current = null;
+        setChatSending(false);
+      }
     }
-    return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
-    };
-  }, [isPlaying, updateProgress]);
+  };
+
+  // Mirror transport state from the engine's events
+  useEffect(() => {
+    const unsubscribers = [
+      audioEngine.on('loaded', ({ duration }) => setDuration(duration)),
+      audioEngine.on('play', () => setIsPlaying(true)),
+      audioEngine.on('pause', () => setIsPlaying(false)),
+      audioEngine.on('ended', () => setIsPlaying(false)),
+      audioEngine.on('timeupdate', ({ currentTime }) => setCurrentTime(currentTime)),
+      audioEngine.on('sourcechange', ({ source, duration }) => {
+        setActiveSource(source);
+        setDuration(duration);
+      }),
+      audioEngine.on('masteringchange', ({ active }) => setMasteringActive(active)),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
 
   const formatTime = (time: number) => {
     const min = Math.floor(time / 60);
@@ -167,6 +750,20 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-4">
+             <button
+                onClick={() => setLibraryOpen(!libraryOpen)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors ${libraryOpen ? 'bg-brand-accent/10 border-brand-accent/40 text-brand-accent' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+             >
+                <FolderOpen size={14} /> LIBRARY
+                {projects.length > 0 && <span className="text-slate-500">{projects.length}</span>}
+             </button>
+             <button
+                onClick={() => setBatchOpen(!batchOpen)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors ${batchOpen ? 'bg-brand-accent/10 border-brand-accent/40 text-brand-accent' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+             >
+                <Disc3 size={14} className={batchRunning ? 'animate-spin' : ''} /> ALBUM
+                {batchTracks.length > 0 && <span className="text-slate-500">{batchTracks.length}</span>}
+             </button>
              <div className="hidden md:flex text-xs text-slate-500 font-mono gap-4">
                  <span className="flex items-center gap-1"><Cpu size={12}/> 64-BIT ENGINE</span>
                  <span className="flex items-center gap-1 text-green-500"><ShieldCheck size={12}/> STUDIO SECURE</span>
@@ -175,7 +772,49 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {libraryOpen && (
+        <ProjectLibrary
+            projects={projects}
+            revisions={revisions}
+            activeProjectId={activeProjectId}
+            activeHash={activeHash}
+            busy={loadingAudio}
+            onClose={() => setLibraryOpen(false)}
+            onNewProject={handleNewProject}
+            onSelectProject={handleSelectProject}
+            onOpenRevision={openRevision}
+            onCompareRevision={(revision) => setCompareHash(revision.hash)}
+            onUploadRevision={(e) => handleFileUpload(e, activeProjectId)}
+            onRenameProject={handleRenameProject}
+            onDeleteProject={handleDeleteProject}
+            onDeleteRevision={handleDeleteRevision}
+        />
+      )}
+
       <main className="max-w-7xl mx-auto px-6 py-8 space-y-8 flex-grow w-full">
+
+        {batchOpen && (
+            <BatchPanel
+                tracks={batchTracks}
+                running={batchRunning}
+                busy={loadingAudio}
+                onAddFiles={handleBatchUpload}
+                onCancel={handleCancelBatch}
+                onClear={() => setBatchTracks([])}
+                onOpen={handleOpenBatchTrack}
+                onClose={() => setBatchOpen(false)}
+            />
+        )}
+
+        {comparePair && (
+            <RevisionDiffPanel
+                before={revisions[comparePair[0]]}
+                after={revisions[comparePair[1]]}
+                beforeLabel={`R${comparePair[0] + 1}`}
+                afterLabel={`R${comparePair[1] + 1}`}
+                onClose={() => setCompareHash(null)}
+            />
+        )}
         
         {/* Top: Player & Visualizer */}
         <div className="bg-brand-panel p-6 rounded-2xl border border-slate-700 shadow-xl relative overflow-hidden">
@@ -199,7 +838,7 @@ const App: React.FC = () => {
                          <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-slate-600 border-dashed rounded-xl cursor-pointer bg-slate-800/50 hover:bg-slate-800 transition-all group">
                             <Upload className="w-8 h-8 mb-3 text-slate-400 group-hover:text-brand-accent transition-colors" />
                             <p className="text-sm text-slate-300 font-medium">Load Mix (WAV/MP3)</p>
-                            <input type="file" className="hidden" accept="audio/*" onChange={handleFileUpload} />
+                            <input type="file" className="hidden" accept="audio/*" onChange={(e) => handleFileUpload(e)} />
                         </label>
                     ) : (
                         <div className="space-y-4">
@@ -216,35 +855,133 @@ const App: React.FC = () => {
                                 </button>
                                 <div className="text-slate-400 font-mono text-sm w-20 text-center">
                                     {formatTime(currentTime)}
+                                    <span className="block text-[10px] text-slate-600">{formatTime(duration)}</span>
+                                </div>
+                                <button
+                                    onClick={handleToggleLoop}
+                                    disabled={!loopRegion}
+                                    title={loopRegion ? `Loop ${formatTime(loopRegion.start)} – ${formatTime(loopRegion.end)}` : 'Drag on the waveform to set a loop'}
+                                    className={`p-3 rounded-full transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${loopEnabled ? 'bg-brand-purple/20 text-brand-purple' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+                                >
+                                    <Repeat size={18} />
+                                </button>
+                            </div>
+
+                            {/* A/B Reference */}
+                            <div className="pt-2 border-t border-slate-700/50 space-y-2">
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="flex rounded-lg overflow-hidden border border-slate-700 text-xs font-mono">
+                                        <button
+                                            onClick={() => audioEngine.setActiveSource('mix')}
+                                            className={`px-3 py-1 transition-colors ${activeSource === 'mix' ? 'bg-brand-accent text-brand-dark font-bold' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                                        >
+                                            A · MIX
+                                        </button>
+                                        <button
+                                            onClick={() => audioEngine.setActiveSource('reference')}
+                                            disabled={!referenceFile}
+                                            className={`px-3 py-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${activeSource === 'reference' ? 'bg-orange-400 text-brand-dark font-bold' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                                        >
+                                            B · REF
+                                        </button>
+                                    </div>
+                                    {referenceFile ? (
+                                        <button onClick={handleClearReference} className="text-[10px] text-slate-500 hover:text-red-400 font-mono uppercase">
+                                            Remove Ref
+                                        </button>
+                                    ) : (
+                                        <label className={`text-[10px] font-mono uppercase cursor-pointer ${loadingReference ? 'text-slate-600' : 'text-brand-accent hover:text-white'}`}>
+                                            {loadingReference ? 'Decoding...' : '+ Load Reference'}
+                                            <input type="file" className="hidden" accept="audio/*" onChange={handleReferenceUpload} disabled={loadingReference} />
+                                        </label>
+                                    )}
                                 </div>
+                                {referenceFile && (
+                                    <div className="flex justify-between text-[10px] font-mono text-slate-500">
+                                        <span className="truncate max-w-[150px]" title={referenceFile.name}>{referenceFile.name}</span>
+                                        <span>
+                                            LUFS MATCH <span className={normalization ? 'line-through' : 'text-orange-400'}>{formatGain(referenceMatchDb)}</span>
+                                        </span>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Streaming Normalization Preview */}
+                            <div className="pt-2 border-t border-slate-700/50 space-y-2">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] font-mono uppercase text-slate-500">Normalize</span>
+                                    <div className="flex flex-wrap justify-end rounded-lg overflow-hidden border border-slate-700 text-[10px] font-mono">
+                                        <button
+                                            onClick={() => setNormalizationPlatform(null)}
+                                            className={`px-2 py-1 transition-colors ${!normalizationPlatform ? 'bg-slate-600 text-white font-bold' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                                        >
+                                            OFF
+                                        </button>
+                                        {NORMALIZATION_PLATFORMS.map(platform => (
+                                            <button
+                                                key={platform.id}
+                                                onClick={() => setNormalizationPlatform(platform.id)}
+                                                disabled={!loudness}
+                                                title={`${platform.target} LUFS · ${platform.note}`}
+                                                className={`px-2 py-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${normalizationPlatform === platform.id ? 'bg-brand-purple text-white font-bold' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                                            >
+                                                {platform.name.toUpperCase()}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {normalization && (
+                                    <div className="space-y-1 text-[10px] font-mono text-slate-500">
+                                        <div className="flex justify-between">
+                                            <span>MIX <span className="text-brand-accent">{formatGain(normalization.mixGain)}</span></span>
+                                            {normalization.referenceGain !== null && (
+                                                <span>REF <span className="text-orange-400">{formatGain(normalization.referenceGain)}</span></span>
+                                            )}
+                                        </div>
+                                        <p className="leading-snug">{getNormalizationPlatform(normalization.platform).note}</p>
+                                    </div>
+                                )}
+                                {normalizationPlatform && masteringActive && (
+                                    <p className="text-[10px] font-mono leading-snug text-yellow-400">
+                                        Paused while the mastering chain is on: platform gains are measured on the unprocessed mix.
+                                    </p>
+                                )}
                             </div>
-                            
-                            <input
-                                type="range"
-                                min="0"
-                                max={duration || 100}
-                                step="0.01"
-                                value={currentTime}
-                                onChange={handleSeek}
-                                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-brand-accent hover:h-2 transition-all"
-                            />
                         </div>
                     )}
                  </div>
 
                  {/* Right: Visualizer */}
-                 <div className="col-span-1 md:col-span-2 flex flex-col justify-end">
-                      <Visualizer />
-                      <div className="flex justify-between mt-2 text-[10px] text-slate-500 font-mono uppercase">
-                          <span>20 Hz</span>
-                          <span>100 Hz</span>
-                          <span>1 kHz</span>
-                          <span>5 kHz</span>
-                          <span>20 kHz</span>
+                 <div className="col-span-1 md:col-span-2 flex gap-4 items-end">
+                      <div className="flex-grow flex flex-col justify-end">
+                          <Visualizer
+                              overlay={spectrumOverlay}
+                              stems={stemDefs}
+                              hunter={hunter}
+                              onHunt={file ? setHunter : undefined}
+                              onMarkHunt={analysis ? handleMarkHunt : undefined}
+                          />
+                      </div>
+                      <div className="hidden lg:block">
+                          <Goniometer />
                       </div>
                  </div>
              </div>
 
+             {/* Waveform Overview */}
+             {file && peaks && (
+                 <div className="mt-6 relative z-10">
+                     <WaveformOverview
+                         peaks={peaks}
+                         currentTime={currentTime}
+                         loop={loopRegion}
+                         loopEnabled={loopEnabled}
+                         onSeek={(time) => audioEngine.seek(time)}
+                         onLoopChange={handleLoopChange}
+                     />
+                 </div>
+             )}
+
              {errorMsg && (
                 <div className="mt-4 flex items-center gap-2 p-3 bg-red-900/20 text-red-400 rounded-lg text-sm border border-red-900/50">
                     <AlertCircle size={16} />
@@ -265,31 +1002,115 @@ const App: React.FC = () => {
                      <p className="text-sm text-slate-500 mt-2">
                          Isolate specific frequency bands to check for mix clashes.
                      </p>
+                     <div className="mt-4 space-y-2 text-xs">
+                         <div className="flex items-center justify-between gap-2">
+                             <span className="text-slate-500 uppercase tracking-widest text-[10px]">Bands</span>
+                             <select
+                                 value={stemDefs.length}
+                                 onChange={(e) => handleBandCountChange(parseInt(e.target.value, 10))}
+                                 className="bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300"
+                             >
+                                 {Array.from({ length: MAX_BANDS - MIN_BANDS + 1 }, (_, i) => MIN_BANDS + i).map(n => (
+                                     <option key={n} value={n}>{n}-band LR4</option>
+                                 ))}
+                             </select>
+                         </div>
+                         <div className="flex flex-wrap items-center gap-1">
+                             <span className="text-slate-500 uppercase tracking-widest text-[10px] mr-1">X-Over</span>
+                             {crossover.map((hz, i) => (
+                                 <input
+                                     key={`${i}-${hz}`}
+                                     type="number"
+                                     min={20}
+                                     max={20000}
+                                     defaultValue={hz}
+                                     onBlur={(e) => handleCrossoverFrequencyChange(i, parseFloat(e.target.value))}
+                                     onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                     className="w-16 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300"
+                                     title="Crossover frequency (Hz)"
+                                 />
+                             ))}
+                         </div>
+                         <div className="flex items-center justify-between gap-2">
+                             <span className="text-slate-500 uppercase tracking-widest text-[10px]">WAV Export</span>
+                             <select
+                                 value={exportBitDepth}
+                                 onChange={(e) => setExportBitDepth(parseInt(e.target.value, 10) as WavBitDepth)}
+                                 className="bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300"
+                             >
+                                 <option value={16}>16-bit</option>
+                                 <option value={24}>24-bit</option>
+                                 <option value={32}>32-bit float</option>
+                             </select>
+                         </div>
+                         <label className="flex items-center gap-2 text-slate-400 cursor-pointer">
+                             <input
+                                 type="checkbox"
+                                 checked={exportWithFader}
+                                 onChange={(e) => setExportWithFader(e.target.checked)}
+                                 className="accent-brand-accent"
+                             />
+                             Apply fader gain
+                         </label>
+                     </div>
                  </div>
                  
                  {/* Sliders */}
-                 {STEM_DEFS.map((stem) => (
-                     <StemSlider 
-                        key={stem.id}
-                        stem={stem}
-                        volume={stemVolumes[stem.id]}
-                        isMuted={stemMutes[stem.id]}
-                        disabled={!file}
-                        onVolumeChange={(val) => handleStemVolumeChange(stem.id, val)}
-                        onToggleMute={() => handleStemMute(stem.id)}
-                        onExport={() => handleExportStem(stem.id)}
-                     />
-                 ))}
+                 <div className={`col-span-1 md:col-span-3 grid gap-6 ${STEM_GRID_COLS[stemDefs.length]}`}>
+                     {stemDefs.map((stem) => (
+                         <StemSlider 
+                            key={stem.id}
+                            stem={stem}
+                            volume={stemVolumes[stem.id] ?? 1}
+                            isMuted={stemMutes[stem.id] ?? false}
+                            disabled={!file}
+                            onVolumeChange={(val) => handleStemVolumeChange(stem, val)}
+                            onToggleMute={() => handleStemMute(stem)}
+                            onExport={() => handleExportStem(stem)}
+                         />
+                     ))}
+                 </div>
             </div>
         )}
 
+        {/* MASTERING PREVIEW */}
+        {file && <MasteringChain loudness={loudness} />}
+
         {/* Action Button */}
-        <div className="flex justify-center py-4">
+        <div className="flex flex-col items-center gap-3 py-4">
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="uppercase tracking-wider">Engine</span>
+                <select
+                    value={providerId}
+                    onChange={(e) => setProviderId(e.target.value as AnalysisProviderId)}
+                    disabled={isAnalyzing}
+                    className="bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-slate-300"
+                >
+                    {ANALYSIS_PROVIDERS.map(p => (
+                        <option key={p.id} value={p.id} disabled={!p.isAvailable()}>
+                            {p.name}{p.isAvailable() ? '' : ' (unavailable)'}
+                        </option>
+                    ))}
+                </select>
+                <span className="hidden md:inline text-slate-500">{getAnalysisProvider(providerId).description}</span>
+            </div>
+            {file && getAnalysisProvider(providerId).requiresNetwork && (
+                <div className="text-[10px] font-mono text-slate-500">
+                    {preparingPayload || !payload ? 'Preparing upload...' : (
+                        <>
+                            Upload {formatBytes(payload.blob.size)} (original {formatBytes(file.size)}) · {payload.sampleRate / 1000} kHz mono WAV ·{' '}
+                            {payload.excerpts[0]?.label === 'full'
+                                ? 'full track'
+                                : `${payload.excerpts.length} excerpts: ${payload.excerpts.map(e => e.label).join(', ')}`}
+                        </>
+                    )}
+                </div>
+            )}
             <button
-                disabled={!file || isAnalyzing}
-                onClick={runAnalysis}
+                disabled={!file || loadingAudio || isAnalyzing || chatSending}
+                onClick={() => runAnalysis()}
                 className={`group relative px-8 py-4 rounded-2xl font-bold text-lg text-white transition-all overflow-hidden
-                    ${!file 
+                    ${!file || loadingAudio
                         ? 'bg-slate-700 cursor-not-allowed opacity-50' 
                         : isAnalyzing 
                             ? 'bg-slate-800 cursor-wait' 
@@ -311,9 +1132,49 @@ const App: React.FC = () => {
 
         {/* Analysis Panel */}
         <div className="min-h-[600px]">
-            <AnalysisPanel analysis={analysis} isLoading={isAnalyzing} />
+            <AnalysisPanel
+                analysis={analysis}
+                isLoading={isAnalyzing}
+                loudness={loudness}
+                stereo={stereo}
+                musical={musical}
+                spectrum={mixSpectrum}
+                error={analysisError}
+                progress={analysisProgress}
+                auditionFix={auditionFix}
+                auditionBypassed={auditionBypassed}
+                onAuditionFix={handleAuditionFix}
+                onToggleAuditionBypass={() => setAuditionBypassed(!auditionBypassed)}
+                onRemoveFix={handleRemoveFix}
+                delivery={delivery}
+                deliveryProfile={deliveryProfile}
+                onDeliveryProfileChange={setDeliveryProfile}
+                onCancel={() => {
+                    cancelRequests();
+                    // With an earlier report on screen, just go back to it
+                    if (!analysis) setAnalysisError(new AnalysisError('cancelled', 'The analysis was cancelled.'));
+                }}
+                onAudition={handleAudition}
+                onExport={handleExportReport}
+                onRetry={() => runAnalysis()}
+                onUseOffline={() => {
+                    setProviderId('offline');
+                    runAnalysis('offline');
+                }}
+            />
         </div>
 
+        {analysis && !isAnalyzing && (
+            <ChatPanel
+                analysis={analysis}
+                providerName={chatProvider?.name ?? null}
+                sending={chatSending}
+                error={chatError}
+                onSend={handleSendChat}
+                onAudition={handleAudition}
+            />
+        )}
+
       </main>
 
        {/* Footer */}
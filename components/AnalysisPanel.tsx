@@ -1,30 +1,186 @@
 import React from 'react';
-import { AudioAnalysis, MixIssue } from '../types';
-import { Music2, Radio, Zap, Activity, AlertTriangle, CheckCircle, XCircle, Sliders, ListMusic, TrendingUp, TrendingDown, Minus, Waves, AlertCircle } from 'lucide-react';
+import { AnalysisErrorKind, AnalysisProgress, AnalysisStage, AudioAnalysis, DeliveryMeasurements, DeliveryProfileId, LoudnessMetrics, MixIssue, MusicalMetrics, SpectrumProfile, StereoMetrics } from '../types';
+import { LoudnessGraph } from './LoudnessGraph';
+import { CorrelationGraph } from './CorrelationGraph';
+import { DeviationGraph } from './DeviationGraph';
+import { DeliveryChecklist } from './DeliveryChecklist';
+import { frequencyToPosition, SPECTRUM_GRID_HZ } from '../services/spectrum';
+import { compareToTarget, resolveTargetCurve } from '../services/targetCurves';
+import { formatLevel } from '../services/loudness';
+import { compareBpm, compareKey } from '../services/musicalAnalysis';
+import { buildStemDefs } from '../services/crossover';
+import { AnalysisError } from '../services/analysisErrors';
+import { sectionAt } from '../services/sections';
+import { ReportFormat } from '../services/mixReport';
+import { describeEqMove, eqMoveForIssue } from '../services/fixEq';
+import { DEFAULT_DELIVERY_PROFILE } from '../services/deliveryProfiles';
+import { Music2, Radio, Zap, Activity, AlertTriangle, CheckCircle, XCircle, Sliders, ListMusic, TrendingUp, TrendingDown, Minus, Waves, AlertCircle, KeyRound, Gauge, FileWarning, WifiOff, FileQuestion, RotateCw, Cpu, PlayCircle, LayoutList, Download, Square, Loader2, Headphones, Trash2 } from 'lucide-react';
 
 interface Props {
   analysis: AudioAnalysis | null;
   isLoading: boolean;
+  loudness?: LoudnessMetrics | null;
+  stereo?: StereoMetrics | null;
+  musical?: MusicalMetrics | null;
+  spectrum?: SpectrumProfile | null;
+  error?: AnalysisError | null;
+  onRetry?: () => void;
+  onUseOffline?: () => void; // Offered when the failure is specific to the cloud provider
+  onAudition?: (start: number, end: number) => void; // Seek & loop a time-stamped passage
+  onExport?: (format: ReportFormat) => void;
+  progress?: AnalysisProgress | null;  // While loading: current stage and anything streamed so far
+  onCancel?: () => void;
+  auditionFix?: number | null;         // Index of the fix whose EQ move is inserted on playback
+  auditionBypassed?: boolean;
+  onAuditionFix?: (index: number | null) => void;
+  onToggleAuditionBypass?: () => void;
+  onRemoveFix?: (index: number) => void; // Offered for fixes the user marked by ear
+  delivery?: DeliveryMeasurements | null;  // Technical QC, shown next to the score
+  deliveryProfile?: DeliveryProfileId;
+  onDeliveryProfileChange?: (profile: DeliveryProfileId) => void;
 }
 
-export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
+const STAGES: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'preparing', label: 'Preparing audio' },
+  { stage: 'reading', label: 'Reading audio' },
+  { stage: 'waiting', label: 'Waiting for model' },
+  { stage: 'validating', label: 'Validating' },
+];
+
+const EXPORT_FORMATS: { format: ReportFormat; label: string; title: string }[] = [
+  { format: 'html', label: 'HTML', title: 'Self-contained report, print to PDF from the browser' },
+  { format: 'markdown', label: 'MD', title: 'Markdown for tickets and chat' },
+  { format: 'json', label: 'JSON', title: 'Versioned JSON for other tools' },
+];
+
+const CURVE_RANGE_DB = 48;
+
+const ERROR_STATES: Record<AnalysisErrorKind, { title: string; hint: string; icon: React.ReactNode; offlineHelps: boolean }> = {
+  'no-key': {
+    title: 'No API Key',
+    hint: 'Set GEMINI_API_KEY in .env.local and restart the dev server, or run the diagnosis offline.',
+    icon: <KeyRound size={40} />,
+    offlineHelps: true,
+  },
+  'quota': {
+    title: 'Quota Exceeded',
+    hint: 'The API key has hit its rate or usage limit. Wait a minute and retry, or run the diagnosis offline.',
+    icon: <Gauge size={40} />,
+    offlineHelps: true,
+  },
+  'file-too-large': {
+    title: 'File Too Large',
+    hint: 'The file exceeds the upload limit for cloud analysis. Bounce a compressed copy or run the diagnosis offline.',
+    icon: <FileWarning size={40} />,
+    offlineHelps: true,
+  },
+  'network': {
+    title: 'Network Unavailable',
+    hint: 'The analysis service could not be reached. Check the connection and retry, or run the diagnosis offline.',
+    icon: <WifiOff size={40} />,
+    offlineHelps: true,
+  },
+  'bad-payload': {
+    title: 'Unreadable Response',
+    hint: 'The model returned data that does not match the report format. Retrying usually fixes this.',
+    icon: <FileQuestion size={40} />,
+    offlineHelps: false,
+  },
+  'cancelled': {
+    title: 'Analysis Cancelled',
+    hint: 'The diagnosis was stopped before it finished. Run it again when you are ready.',
+    icon: <XCircle size={40} />,
+    offlineHelps: false,
+  },
+  'unknown': {
+    title: 'Analysis Failed',
+    hint: 'Something unexpected went wrong. Check the console for details and retry.',
+    icon: <AlertCircle size={40} />,
+    offlineHelps: false,
+  },
+};
+
+const formatTimestamp = (seconds: number) => {
+  const min = Math.floor(seconds / 60);
+  const sec = seconds % 60;
+  return `${min}:${sec < 10 ? '0' : ''}${sec.toFixed(1)}`;
+};
+
+export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading, loudness = null, stereo = null, musical = null, spectrum = null, error = null, onRetry, onUseOffline, onAudition, onExport, progress = null, onCancel, auditionFix = null, auditionBypassed = false, onAuditionFix, onToggleAuditionBypass, onRemoveFix, delivery = null, deliveryProfile = DEFAULT_DELIVERY_PROFILE, onDeliveryProfileChange }) => {
   if (isLoading) {
+    const current = STAGES.findIndex(s => s.stage === (progress?.stage ?? 'preparing'));
+    const partial = progress?.partial;
     return (
-      <div className="w-full h-full min-h-[500px] flex flex-col items-center justify-center p-8 bg-slate-900/50 rounded-2xl border border-slate-700/50 animate-pulse">
-        <div className="relative">
+      <div className="w-full h-full min-h-[500px] flex flex-col items-center p-8 bg-slate-900/50 rounded-2xl border border-slate-700/50">
+        <div className="relative mt-8">
              <div className="w-24 h-24 border-4 border-brand-accent border-t-transparent rounded-full animate-spin"></div>
              <div className="absolute inset-0 flex items-center justify-center text-brand-accent">
                  <Zap size={32} className="animate-bounce" />
              </div>
         </div>
         <p className="text-brand-accent font-mono text-lg mt-8 tracking-widest uppercase">RøcAudio Mix Brain</p>
-        <p className="text-slate-400 text-sm mt-2">Comparing against 10,000+ genre references...</p>
-        <div className="mt-4 flex gap-2 text-xs text-slate-500 font-mono">
-            <span>CHECKING PHASE</span>
-            <span>•</span>
-            <span>MEASURING LUFS</span>
-            <span>•</span>
-            <span>EQ BALANCING</span>
+
+        <div className="mt-4 flex flex-wrap justify-center gap-2 text-xs font-mono">
+            {STAGES.map(({ stage, label }, i) => (
+                <span
+                    key={stage}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded border ${i < current ? 'border-emerald-500/30 text-emerald-400' : i === current ? 'border-brand-accent/50 text-brand-accent' : 'border-slate-700 text-slate-600'}`}
+                >
+                    {i < current ? <CheckCircle size={10} /> : i === current ? <Loader2 size={10} className="animate-spin" /> : null}
+                    {label.toUpperCase()}
+                </span>
+            ))}
+        </div>
+
+        {onCancel && (
+            <button onClick={onCancel} className="mt-6 flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 border border-slate-600 text-slate-300 text-sm hover:text-red-400 hover:border-red-500/40 transition-colors">
+                <Square size={12} /> Cancel
+            </button>
+        )}
+
+        {/* Whatever the model has streamed so far */}
+        {partial && (partial.summary || (partial.actionableFixes?.length ?? 0) > 0) && (
+            <div className="mt-8 w-full max-w-2xl space-y-3 text-left">
+                {(partial.genre || partial.masteringScore !== undefined) && (
+                    <div className="flex gap-2 text-xs font-mono">
+                        {partial.masteringScore !== undefined && <span className="bg-slate-800 border border-slate-600 px-2 py-1 rounded text-white">Score {partial.masteringScore}</span>}
+                        {partial.genre && <span className="bg-slate-800 border border-slate-600 px-2 py-1 rounded text-slate-300">{partial.genre}</span>}
+                    </div>
+                )}
+                {partial.summary && (
+                    <p className="text-slate-300 text-sm leading-relaxed border-l-2 border-brand-accent/50 pl-3">{partial.summary}</p>
+                )}
+                {partial.actionableFixes?.map((fix, idx) => (
+                    <div key={idx} className="flex gap-3 text-xs bg-slate-900/60 border border-slate-700/50 rounded-lg p-3">
+                        <span className="font-mono text-brand-accent shrink-0">{fix.frequency}</span>
+                        <span className="text-slate-300">{fix.issue} <span className="text-slate-500 font-mono">· {fix.fix}</span></span>
+                    </div>
+                ))}
+            </div>
+        )}
+      </div>
+    );
+  }
+
+  if (error) {
+    const state = ERROR_STATES[error.kind];
+    return (
+      <div className="w-full h-full min-h-[500px] flex flex-col items-center justify-center p-8 bg-slate-900/50 rounded-2xl border border-red-500/30">
+        <div className="text-red-400 mb-4">{state.icon}</div>
+        <h3 className="text-xl font-bold text-slate-200">{state.title}</h3>
+        <p className="text-slate-400 text-sm mt-2 text-center max-w-md">{state.hint}</p>
+        <p className="text-slate-600 text-xs font-mono mt-3 text-center max-w-md">{error.message}</p>
+        <div className="flex gap-3 mt-6">
+            {onRetry && (
+                <button onClick={onRetry} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 border border-slate-600 text-slate-200 text-sm hover:bg-slate-700 transition-colors">
+                    <RotateCw size={14} /> Retry
+                </button>
+            )}
+            {state.offlineHelps && onUseOffline && (
+                <button onClick={onUseOffline} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-brand-accent/10 border border-brand-accent/40 text-brand-accent text-sm hover:bg-brand-accent/20 transition-colors">
+                    <Cpu size={14} /> Run Offline Instead
+                </button>
+            )}
         </div>
       </div>
     );
@@ -42,6 +198,28 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
     );
   }
 
+  const bpmAgreement = musical ? compareBpm(analysis.bpm, musical.tempo) : 'unknown';
+  const keyAgreement = musical ? compareKey(analysis.key, musical.key) : 'unknown';
+
+  const getAgreementStyles = (agreement: string) => {
+      switch(agreement) {
+          case 'match': return 'text-emerald-400 border-emerald-500/30 bg-emerald-500/5';
+          case 'mismatch': return 'text-red-400 border-red-500/40 bg-red-500/10';
+          case 'unknown': return 'text-slate-400 border-slate-600 bg-slate-800';
+          default: return 'text-yellow-400 border-yellow-500/30 bg-yellow-500/5';
+      }
+  };
+
+  const getAgreementLabel = (agreement: string) => {
+      switch(agreement) {
+          case 'match': return 'Agrees with AI';
+          case 'half-double': return 'AI value is half/double time';
+          case 'relative': return 'AI value is the relative key';
+          case 'mismatch': return 'Disagrees with AI';
+          default: return 'AI value not comparable';
+      }
+  };
+
   const getScoreColor = (score: number) => {
       if (score >= 90) return 'text-green-500 border-green-500';
       if (score >= 75) return 'text-yellow-500 border-yellow-500';
@@ -72,48 +250,23 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
     }
   };
 
-  const getTargetCurvePath = (presetName: string) => {
-    const p = presetName ? presetName.toLowerCase() : '';
-    // SVG Coordinate system: 0,0 is Top-Left. 
-    // Y=0 is Max Volume (Top). Y=100 is Min Volume (Bottom).
-    
-    if (p.includes('v-shape') || p.includes('trap') || p.includes('hip hop') || p.includes('electronic')) {
-       // V-Shape: Boost Lows, Dip Mids, Boost Highs
-       return "M0,30 C20,30 30,70 50,70 S80,30 100,30";
-    }
-    if (p.includes('mid') || p.includes('rock') || p.includes('guitar')) {
-       // Mid-Forward: Moderate Lows, Loud Mids, Moderate Highs
-       return "M0,60 C20,60 30,30 50,30 S80,60 100,60";
-    }
-    if (p.includes('warm') || p.includes('jazz') || p.includes('soul') || p.includes('r&b')) {
-       // Warm: Loud Lows, Moderate Mids, Rolled Highs
-       return "M0,30 C30,30 50,50 50,50 S80,80 100,80";
-    }
-    if (p.includes('pop') || p.includes('mainstream')) {
-       // Fletcher-Munson / Pop: Slight Smile. Boost Lows, Dip Mids, Boost Air.
-       return "M0,40 C30,40 40,60 50,60 S80,20 100,20";
-    }
-    // Default Flat
-    return "M0,50 L100,50";
-  };
+  const sections = analysis.sections ?? [];
+  const songLength = sections.length > 0 ? sections[sections.length - 1].end : 0;
 
-  const getCurrentCurvePath = () => {
-      // Calculates a rough curve based on the Cut/Boost analysis
-      const getY = (status: string) => {
-          if (status === 'Cut') return 20;   // It IS loud, so it sits high up
-          if (status === 'Boost') return 80; // It IS quiet, so it sits low down
-          return 50;
-      };
+  const targetCurve = resolveTargetCurve(analysis.suggestedEqPreset);
+  const comparison = spectrum ? compareToTarget(spectrum, targetCurve) : null;
 
-      const lowY = getY(analysis.mixBalance.low.status);
-      const midY = getY(analysis.mixBalance.mid.status);
-      const highY = getY(analysis.mixBalance.high.status);
+  // Shared dB scale for the measured & target curves (SVG Y: 0 = top / loud)
+  const curveTop = comparison ? Math.max(...comparison.measured.levels, ...comparison.target.levels) + 3 : 0;
+  const curveToY = (db: number) => Math.max(0, Math.min(100, ((curveTop - db) / CURVE_RANGE_DB) * 100));
 
-      // Simple Bezier through 3 points
-      return `M0,${lowY} C30,${lowY} 30,${midY} 50,${midY} S70,${highY} 100,${highY}`;
+  const getCurvePath = (profile: SpectrumProfile) => {
+      return 'M' + profile.frequencies
+          .map((freq, i) => `${(frequencyToPosition(freq) * 100).toFixed(2)},${curveToY(profile.levels[i]).toFixed(2)}`)
+          .join(' L');
   };
 
-  // Helper: Convert frequency string (e.g. "300Hz", "4kHz") to global percentage (0-100)
+  // Convert frequency string (e.g. "300Hz", "4kHz") to a position (0-100) on the log axis
   const getFrequencyPercentage = (freqStr: string): number => {
     if (!freqStr) return -1;
     const match = freqStr.match(/([\d.]+)\s*(k?Hz)/i);
@@ -122,32 +275,13 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
     let freq = parseFloat(match[1]);
     if (match[2].toLowerCase().includes('k')) freq *= 1000;
 
-    let percent = 0;
-    
-    // Low Band: 20 - 250 Hz (31.25% width)
-    if (freq < 250) {
-        const min = 20; const max = 250;
-        const f = Math.max(freq, min);
-        // Logarithmic scale within band
-        const logPos = (Math.log(f) - Math.log(min)) / (Math.log(max) - Math.log(min));
-        percent = logPos * 31.25;
-    }
-    // Mid Band: 250 - 4000 Hz (37.5% width) starting at 31.25%
-    else if (freq < 4000) {
-        const min = 250; const max = 4000;
-        const logPos = (Math.log(freq) - Math.log(min)) / (Math.log(max) - Math.log(min));
-        percent = 31.25 + (logPos * 37.5);
-    }
-    // High Band: 4000 - 20000 Hz (31.25% width) starting at 68.75%
-    else {
-        const min = 4000; const max = 20000;
-        const f = Math.min(freq, max);
-        const logPos = (Math.log(f) - Math.log(min)) / (Math.log(max) - Math.log(min));
-        percent = 68.75 + (logPos * 31.25);
-    }
-    return Math.max(2, Math.min(98, percent)); // Clamp to keep inside
+    return Math.max(2, Math.min(98, frequencyToPosition(freq) * 100)); // Clamp to keep inside
   };
 
+  // Band widths on the same log axis (model bands: 20-250Hz, 250Hz-4kHz, 4-20kHz)
+  const lowBandWidth = frequencyToPosition(250) * 100;
+  const midBandWidth = (frequencyToPosition(4000) - frequencyToPosition(250)) * 100;
+
   // New helper for glow styles
   const getSeverityStyles = (severity: string) => {
       switch(severity) {
@@ -184,8 +318,44 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
             <span className="bg-slate-800 border border-slate-600 px-2 py-1 rounded text-slate-300">{analysis.genre}</span>
             <span className="bg-slate-800 border border-slate-600 px-2 py-1 rounded text-slate-300">{analysis.bpm} BPM</span>
             <span className="bg-slate-800 border border-slate-600 px-2 py-1 rounded text-slate-300 text-brand-purple">{analysis.key}</span>
+            {onExport && (
+                <div className="flex items-center rounded border border-slate-600 overflow-hidden ml-2">
+                    <span className="px-2 py-1 text-slate-500 bg-slate-800 flex items-center"><Download size={12} /></span>
+                    {EXPORT_FORMATS.map(({ format, label, title }) => (
+                        <button key={format} onClick={() => onExport(format)} title={title} className="px-2 py-1 bg-slate-800 text-slate-300 hover:text-brand-accent hover:bg-slate-700 border-l border-slate-700 transition-colors">
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
       </div>
+
+      {/* Measured Tempo / Key Cross-Check */}
+      {musical && (
+        <div className="px-4 py-2 bg-slate-900/60 border-b border-slate-700 flex flex-wrap items-center gap-2 text-[10px] font-mono">
+            <span className="text-slate-500 uppercase tracking-widest">Measured:</span>
+            <span
+                title={getAgreementLabel(bpmAgreement)}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded border ${getAgreementStyles(bpmAgreement)}`}
+            >
+                {bpmAgreement === 'mismatch' && <AlertTriangle size={10} />}
+                {musical.tempo.bpm > 0 ? `${musical.tempo.bpm} BPM` : '-- BPM'}
+                <span className="text-slate-500">{Math.round(musical.tempo.confidence * 100)}%</span>
+            </span>
+            <span
+                title={getAgreementLabel(keyAgreement)}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded border ${getAgreementStyles(keyAgreement)}`}
+            >
+                {keyAgreement === 'mismatch' && <AlertTriangle size={10} />}
+                {musical.key.key}
+                <span className="text-slate-500">{Math.round(musical.key.confidence * 100)}%</span>
+            </span>
+            {(bpmAgreement === 'mismatch' || keyAgreement === 'mismatch') && (
+                <span className="text-red-400">AI and measurement disagree, verify by ear</span>
+            )}
+        </div>
+      )}
       
       <div className="p-6 overflow-y-auto custom-scrollbar flex-grow space-y-8">
         
@@ -213,6 +383,12 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
                      ))}
                 </div>
             </div>
+
+            {delivery && onDeliveryProfileChange && (
+                <div className="w-full md:w-72 flex-shrink-0">
+                    <DeliveryChecklist measurements={delivery} profile={deliveryProfile} onProfileChange={onDeliveryProfileChange} />
+                </div>
+            )}
         </div>
 
         {/* Frequency Spectrum Visualizer */}
@@ -291,13 +467,9 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
                         )
                     })}
 
-                    {/* Grid Lines */}
-                    <div className="absolute inset-0 pointer-events-none z-10 opacity-10 flex flex-col justify-between py-4 px-6">
-                         {[1,2,3,4,5].map(i => <div key={i} className="w-full h-px bg-slate-400 border-t border-dashed"></div>)}
-                    </div>
 
                     {/* Low Band */}
-                    <div className={`flex-1 relative border-r border-slate-800 bg-gradient-to-t ${getSpectrumGradient(analysis.mixBalance.low.status)}`}>
+                    <div style={{ width: `${lowBandWidth}%` }} className={`flex-none relative border-r border-slate-800 bg-gradient-to-t ${getSpectrumGradient(analysis.mixBalance.low.status)}`}>
                         <div className="absolute bottom-2 left-2 z-20">
                             <span className="text-xs font-bold text-slate-400 block">LOW</span>
                             <span className="text-[10px] text-slate-600 block">20Hz - 250Hz</span>
@@ -313,7 +485,7 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
                     </div>
 
                     {/* Mid Band */}
-                    <div className={`flex-[1.2] relative border-r border-slate-800 bg-gradient-to-t ${getSpectrumGradient(analysis.mixBalance.mid.status)}`}>
+                    <div style={{ width: `${midBandWidth}%` }} className={`flex-none relative border-r border-slate-800 bg-gradient-to-t ${getSpectrumGradient(analysis.mixBalance.mid.status)}`}>
                          <div className="absolute bottom-2 left-2 z-20">
                             <span className="text-xs font-bold text-slate-400 block">MID</span>
                             <span className="text-[10px] text-slate-600 block">250Hz - 4kHz</span>
@@ -347,27 +519,38 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
                     {/* Curves Overlay */}
                     <svg className="absolute inset-0 w-full h-full z-10 pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
                          
-                         {/* Legend / Key within SVG area */}
-                         <text x="2" y="5" className="text-[5px] fill-slate-500 font-mono">dB</text>
-
-                         {/* TARGET CURVE (Dashed) */}
-                         <path 
-                           d={getTargetCurvePath(analysis.suggestedEqPreset)}
-                           fill="none" 
-                           stroke="#38bdf8" 
-                           strokeWidth="0.8"
-                           strokeDasharray="3,2"
-                           className="opacity-60"
-                         />
-                         
-                         {/* CURRENT MIX CURVE (Solid, based on Cut/Boost status) */}
-                         <path 
-                           d={getCurrentCurvePath()}
-                           fill="none" 
-                           stroke="url(#gradient)" 
-                           strokeWidth="1.5"
-                           className="drop-shadow-lg"
-                         />
+                         {/* Grid: dB every 6 dB, frequency decades */}
+                         {Array.from({ length: CURVE_RANGE_DB / 6 - 1 }, (_, i) => (i + 1) * (100 / (CURVE_RANGE_DB / 6))).map(y => (
+                             <line key={`db-${y}`} x1="0" x2="100" y1={y} y2={y} stroke="#94a3b8" strokeOpacity="0.12" strokeDasharray="1,2" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                         ))}
+                         {SPECTRUM_GRID_HZ.map(f => (
+                             <line key={`hz-${f}`} x1={frequencyToPosition(f) * 100} x2={frequencyToPosition(f) * 100} y1="0" y2="100" stroke="#94a3b8" strokeOpacity="0.08" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                         ))}
+
+                         {comparison && (
+                             <>
+                                 {/* TARGET CURVE (Dashed) */}
+                                 <path 
+                                   d={getCurvePath(comparison.target)}
+                                   fill="none" 
+                                   stroke="#38bdf8" 
+                                   strokeWidth="1.5"
+                                   strokeDasharray="6,4"
+                                   vectorEffect="non-scaling-stroke"
+                                   className="opacity-60"
+                                 />
+                                 
+                                 {/* MEASURED MIX CURVE (Solid, 1/3-octave LTAS) */}
+                                 <path 
+                                   d={getCurvePath(comparison.measured)}
+                                   fill="none" 
+                                   stroke="url(#gradient)" 
+                                   strokeWidth="2.5"
+                                   vectorEffect="non-scaling-stroke"
+                                   className="drop-shadow-lg"
+                                 />
+                             </>
+                         )}
                          
                          {/* Defs */}
                          <defs>
@@ -376,26 +559,32 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
                              <stop offset="50%" stopColor="#eab308" stopOpacity={analysis.mixBalance.mid.status === 'Good' ? 0.5 : 1} />
                              <stop offset="100%" stopColor="#10b981" stopOpacity={analysis.mixBalance.high.status === 'Good' ? 0.5 : 1} />
                            </linearGradient>
-                           <linearGradient id="gradient" x1="0%" y1="0%" x2="100%" y2="0%">
-                             <stop offset="0%" stopColor="#ffffff" />
-                             <stop offset="100%" stopColor="#cbd5e1" />
-                           </linearGradient>
                          </defs>
                     </svg>
+
+                    {/* dB Scale (relative to the loudest band) */}
+                    {comparison && (
+                        <div className="absolute left-1 top-0 bottom-0 z-20 flex flex-col justify-between text-[8px] font-mono text-slate-600 pointer-events-none py-0.5">
+                            {Array.from({ length: CURVE_RANGE_DB / 12 + 1 }, (_, i) => <span key={i}>{i === 0 ? '0 dB' : `-${i * 12}`}</span>)}
+                        </div>
+                    )}
                     
                     {/* Floating Legend */}
                     <div className="absolute top-2 left-1/2 -translate-x-1/2 flex gap-4 bg-slate-900/80 px-3 py-1 rounded-full border border-slate-700/50 backdrop-blur text-[9px] font-mono z-20 pointer-events-none">
                          <div className="flex items-center gap-1">
                              <div className="w-3 h-0.5 bg-slate-200"></div>
-                             <span className="text-slate-300">Measured Profile</span>
+                             <span className="text-slate-300">{comparison ? 'Measured Profile (1/3 oct)' : 'Measuring...'}</span>
                          </div>
                          <div className="flex items-center gap-1">
                              <div className="w-3 h-0.5 border-t border-brand-accent border-dashed"></div>
-                             <span className="text-brand-accent">{analysis.suggestedEqPreset ? 'Target: ' + analysis.suggestedEqPreset.split(' ')[0] : 'Target'}</span>
+                             <span className="text-brand-accent">Target: {targetCurve.name}</span>
                          </div>
                     </div>
                 </div>
 
+                {/* Measured vs Target Deviation */}
+                {comparison && <DeviationGraph deviation={comparison.deviation} />}
+
                 {/* Text Descriptions below Visualizer */}
                 <div className="grid grid-cols-1 md:grid-cols-3 divide-y md:divide-y-0 md:divide-x divide-slate-700 bg-slate-800/50 border-t border-slate-700">
                      <div className="p-4">
@@ -411,6 +600,55 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
             </div>
         </div>
 
+        {/* Song Structure */}
+        {sections.length > 0 && (
+            <div className="bg-slate-900/30 rounded-xl border border-slate-700/50 overflow-hidden">
+                 <div className="p-3 bg-slate-900/80 border-b border-slate-700 flex items-center justify-between">
+                     <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                        <LayoutList size={14} className="text-brand-purple" /> Song Structure
+                     </h4>
+                     <span className="text-[10px] text-slate-500">Balance relative to the whole song · click to loop</span>
+                 </div>
+
+                 {/* Timeline */}
+                 <div className="flex h-8 mx-4 mt-4 rounded overflow-hidden border border-slate-700">
+                     {sections.map((section, idx) => (
+                         <button
+                             key={idx}
+                             onClick={() => onAudition?.(section.start, section.end)}
+                             title={`${section.label} ${formatTimestamp(section.start)} – ${formatTimestamp(section.end)}`}
+                             style={{ width: `${((section.end - section.start) / songLength) * 100}%` }}
+                             className={`h-full text-[10px] font-mono uppercase truncate px-1 border-r border-slate-900 last:border-r-0 transition-colors hover:brightness-125
+                                 ${section.label.startsWith('Chorus') ? 'bg-brand-purple/30 text-brand-purple' : section.label.startsWith('Verse') ? 'bg-brand-accent/20 text-brand-accent' : 'bg-slate-700/50 text-slate-400'}`}
+                         >
+                             {section.label}
+                         </button>
+                     ))}
+                 </div>
+
+                 <div className="divide-y divide-slate-800 mt-4 border-t border-slate-800">
+                     {sections.map((section, idx) => (
+                         <button
+                             key={idx}
+                             onClick={() => onAudition?.(section.start, section.end)}
+                             className="w-full px-4 py-2 flex items-center gap-4 text-left hover:bg-slate-800/50 transition-colors"
+                         >
+                             <PlayCircle size={14} className="text-slate-500 shrink-0" />
+                             <span className="w-20 text-xs font-semibold text-slate-200">{section.label}</span>
+                             <span className="w-28 text-[10px] font-mono text-slate-500">{formatTimestamp(section.start)} – {formatTimestamp(section.end)}</span>
+                             <div className="flex gap-2 flex-wrap">
+                                 {[section.balance.low, section.balance.mid, section.balance.high].map(band => (
+                                     <span key={band.band} title={band.description} className={`flex items-center gap-1 text-[10px] font-bold px-2 py-0.5 rounded border ${getStatusColor(band.status)}`}>
+                                         {getStatusIcon(band.status)} {band.band.toUpperCase()}
+                                     </span>
+                                 ))}
+                             </div>
+                         </button>
+                     ))}
+                 </div>
+            </div>
+        )}
+
         {/* Actionable Fixes List */}
         <div className="bg-slate-900/30 rounded-xl border border-slate-700/50 overflow-hidden">
              <div className="p-3 bg-slate-900/80 border-b border-slate-700 flex items-center justify-between">
@@ -429,10 +667,57 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
                          </div>
                          <div className="flex-grow">
                              <div className="flex justify-between items-start mb-1">
-                                <h5 className="text-sm font-semibold text-slate-200">{fix.issue}</h5>
-                                <span className="font-mono text-xs text-brand-accent bg-brand-accent/10 px-2 py-0.5 rounded">{fix.frequency}</span>
+                                <h5 className="text-sm font-semibold text-slate-200">
+                                    {fix.issue}
+                                    {fix.userCreated && <span className="ml-2 text-[10px] font-mono text-yellow-400 bg-yellow-500/10 px-1.5 py-0.5 rounded align-middle">BY EAR</span>}
+                                </h5>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    {fix.start !== undefined && (
+                                        <button
+                                            onClick={() => onAudition?.(fix.start!, fix.end ?? fix.start! + 5)}
+                                            title="Seek here and loop"
+                                            className="flex items-center gap-1 font-mono text-xs text-brand-purple bg-brand-purple/10 hover:bg-brand-purple/20 px-2 py-0.5 rounded transition-colors"
+                                        >
+                                            <PlayCircle size={12} />
+                                            {formatTimestamp(fix.start)}
+                                            {sectionAt(sections, fix.start) && (
+                                                <span className="text-slate-500">· {sectionAt(sections, fix.start)!.label}</span>
+                                            )}
+                                        </button>
+                                    )}
+                                    <span className="font-mono text-xs text-brand-accent bg-brand-accent/10 px-2 py-0.5 rounded">{fix.frequency}</span>
+                                    {fix.userCreated && onRemoveFix && (
+                                        <button
+                                            onClick={() => onRemoveFix(idx)}
+                                            title="Remove this mark"
+                                            className="text-slate-500 hover:text-red-400 transition-colors"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    )}
+                                </div>
                              </div>
                              <p className="text-xs text-slate-400 font-mono"><span className="text-green-500">FIX:</span> {fix.fix}</p>
+                             {onAuditionFix && eqMoveForIssue(fix) && (
+                                 <div className="mt-2 flex items-center gap-2 text-[10px] font-mono">
+                                     <button
+                                         onClick={() => onAuditionFix(auditionFix === idx ? null : idx)}
+                                         className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-colors ${auditionFix === idx ? 'bg-green-500/10 border-green-500/40 text-green-400' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+                                     >
+                                         <Headphones size={10} /> {auditionFix === idx ? 'Auditioning' : 'Audition fix'}
+                                     </button>
+                                     <span className="text-slate-500">{describeEqMove(eqMoveForIssue(fix)!)}</span>
+                                     {auditionFix === idx && onToggleAuditionBypass && (
+                                         <button
+                                             onClick={onToggleAuditionBypass}
+                                             title="Compare with and without the move"
+                                             className={`px-2 py-0.5 rounded border transition-colors ${auditionBypassed ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-400' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+                                         >
+                                             {auditionBypassed ? 'BYPASSED' : 'BYPASS'}
+                                         </button>
+                                     )}
+                                 </div>
+                             )}
                          </div>
                      </div>
                  ))}
@@ -443,10 +728,80 @@ export const AnalysisPanel: React.FC<Props> = ({ analysis, isLoading }) => {
         <div className="grid grid-cols-2 gap-4">
             <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700/50">
                  <h5 className="text-[10px] text-slate-500 uppercase tracking-widest mb-1">Stereo Imaging</h5>
+                 {stereo && (
+                     <div className="mb-3 space-y-3">
+                         {stereo.isMono ? (
+                             <p className="text-xs font-mono text-slate-500">Mono source: no stereo information.</p>
+                         ) : (
+                             <>
+                                 <div className="grid grid-cols-2 gap-2 font-mono">
+                                     <div className="bg-slate-950/50 rounded-lg border border-slate-800 px-2 py-1.5">
+                                         <span className="block text-[9px] uppercase tracking-wider text-slate-500">Correlation</span>
+                                         <span className={`text-sm font-bold ${stereo.correlation < 0 ? 'text-red-400' : 'text-slate-200'}`}>{stereo.correlation.toFixed(2)}</span>
+                                     </div>
+                                     <div className="bg-slate-950/50 rounded-lg border border-slate-800 px-2 py-1.5">
+                                         <span className="block text-[9px] uppercase tracking-wider text-slate-500">Mid / Side</span>
+                                         <span className="text-sm font-bold text-slate-200">{Number.isFinite(stereo.midSideRatio) ? stereo.midSideRatio.toFixed(1) : '∞'}</span>
+                                         <span className="text-[9px] text-slate-500 ml-1">dB</span>
+                                     </div>
+                                 </div>
+                                 <div className="space-y-1">
+                                     {buildStemDefs(stereo.crossover).map(band => (
+                                         <div key={band.id} className="flex items-center gap-2 text-[10px] font-mono" title={band.frequencyRange}>
+                                             <span className="w-16 uppercase text-slate-500 truncate">{band.id}</span>
+                                             <div className="flex-grow h-1.5 bg-slate-800 rounded overflow-hidden">
+                                                 <div
+                                                     className={`h-full ${stereo.bandWidth[band.index] > 0.5 ? 'bg-red-500' : 'bg-brand-accent'}`}
+                                                     style={{ width: `${Math.min(100, stereo.bandWidth[band.index] * 100)}%` }}
+                                                 ></div>
+                                             </div>
+                                             <span className="w-10 text-right text-slate-400">{Math.round(stereo.bandWidth[band.index] * 100)}%</span>
+                                         </div>
+                                     ))}
+                                 </div>
+                                 <CorrelationGraph metrics={stereo} />
+                                 {stereo.negativePassages.length > 0 && (
+                                     <div>
+                                         <p className="text-[10px] uppercase tracking-widest text-red-400 mb-1">Negative Correlation</p>
+                                         <ul className="space-y-0.5 max-h-24 overflow-y-auto custom-scrollbar">
+                                             {stereo.negativePassages.map((p, i) => (
+                                                 <li key={i} className="flex justify-between text-[10px] font-mono text-slate-400">
+                                                     <span>{formatTimestamp(p.start)} – {formatTimestamp(p.end)}</span>
+                                                     <span className="text-red-400">{p.minCorrelation.toFixed(2)}</span>
+                                                 </li>
+                                             ))}
+                                         </ul>
+                                     </div>
+                                 )}
+                             </>
+                         )}
+                     </div>
+                 )}
                  <p className="text-sm text-slate-300">{analysis.stereoAnalysis}</p>
             </div>
              <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700/50">
                  <h5 className="text-[10px] text-slate-500 uppercase tracking-widest mb-1">Dynamics / LUFS</h5>
+                 {loudness && (
+                     <div className="mb-3 space-y-3">
+                         <div className="grid grid-cols-3 gap-2 font-mono">
+                             {[
+                                 { label: 'Integrated', value: formatLevel(loudness.integrated), unit: 'LUFS' },
+                                 { label: 'Short-Term Max', value: formatLevel(loudness.shortTermMax), unit: 'LUFS' },
+                                 { label: 'Momentary Max', value: formatLevel(loudness.momentaryMax), unit: 'LUFS' },
+                                 { label: 'LRA', value: formatLevel(loudness.loudnessRange), unit: 'LU' },
+                                 { label: 'True Peak', value: formatLevel(loudness.truePeak), unit: 'dBTP' },
+                                 { label: 'Sample Peak', value: formatLevel(loudness.samplePeak), unit: 'dBFS' },
+                             ].map(m => (
+                                 <div key={m.label} className="bg-slate-950/50 rounded-lg border border-slate-800 px-2 py-1.5">
+                                     <span className="block text-[9px] uppercase tracking-wider text-slate-500">{m.label}</span>
+                                     <span className={`text-sm font-bold ${m.label === 'True Peak' && loudness.truePeak > -1 ? 'text-red-400' : 'text-slate-200'}`}>{m.value}</span>
+                                     <span className="text-[9px] text-slate-500 ml-1">{m.unit}</span>
+                                 </div>
+                             ))}
+                         </div>
+                         <LoudnessGraph metrics={loudness} />
+                     </div>
+                 )}
                  <p className="text-sm text-slate-300">{analysis.dynamicAnalysis}</p>
             </div>
         </div>
@@ -0,0 +1,171 @@
+import React, { useMemo } from 'react';
+import { Disc3, X, Upload, Loader2, ExternalLink, AlertTriangle } from 'lucide-react';
+import { BatchTrack, BatchTrackStatus } from '../types';
+import { findBatchOutliers, LOUDNESS_OUTLIER_LU, TILT_OUTLIER_DB } from '../services/batchAnalysis';
+import { spectralTilt } from '../services/spectrum';
+
+interface Props {
+  tracks: BatchTrack[];
+  running: boolean;
+  busy: boolean; // Main player is loading, so tracks can't be opened yet
+  onAddFiles: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onOpen: (track: BatchTrack) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchTrackStatus, string> = {
+  queued: 'Queued',
+  measuring: 'Measuring',
+  analyzing: 'Analyzing',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const BALANCE_COLORS: Record<string, string> = {
+  Good: 'text-emerald-400',
+  Cut: 'text-red-400',
+  Boost: 'text-yellow-400',
+};
+
+const formatDelta = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-400';
+  if (score >= 60) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+export const BatchPanel: React.FC<Props> = ({ tracks, running, busy, onAddFiles, onCancel, onClear, onOpen, onClose }) => {
+  const outliers = useMemo(() => findBatchOutliers(tracks), [tracks]);
+  const flagged = tracks.filter(t => outliers[t.id].loudness !== null || outliers[t.id].tilt !== null).length;
+  const settled = tracks.filter(t => t.status === 'done' || t.status === 'error' || t.status === 'cancelled').length;
+
+  return (
+    <div className="bg-brand-panel p-6 rounded-2xl border border-slate-700 shadow-xl space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Disc3 className="text-brand-accent" size={18} /> Album / EP
+          {tracks.length > 0 && (
+            <span className="text-xs font-mono text-slate-400 font-normal">{settled}/{tracks.length} tracks</span>
+          )}
+        </h2>
+        <div className="flex items-center gap-2">
+          {running ? (
+            <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-xs font-mono border border-slate-700 text-slate-400 hover:text-red-400">
+              CANCEL
+            </button>
+          ) : (
+            <>
+              {tracks.length > 0 && (
+                <button onClick={onClear} className="px-3 py-1.5 rounded-lg text-xs font-mono border border-slate-700 text-slate-400 hover:text-white">
+                  CLEAR
+                </button>
+              )}
+              <label className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-mono border border-brand-accent/40 text-brand-accent hover:bg-brand-accent/10 cursor-pointer">
+                <Upload size={12} /> ADD TRACKS
+                <input type="file" className="hidden" accept="audio/*" multiple onChange={onAddFiles} />
+              </label>
+            </>
+          )}
+          <button onClick={onClose} title="Close" className="p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {tracks.length === 0 ? (
+        <p className="text-xs text-slate-500">Load every track of the release to measure and analyse them together and spot the ones that don't sit with the rest.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-xl border border-slate-700/50">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-900/80 text-[10px] text-slate-500 uppercase tracking-widest">
+                <tr>
+                  <th className="px-3 py-2 text-left">#</th>
+                  <th className="px-3 py-2 text-left">Track</th>
+                  <th className="px-3 py-2 text-left">Status</th>
+                  <th className="px-3 py-2 text-right">Score</th>
+                  <th className="px-3 py-2 text-right">LUFS</th>
+                  <th className="px-3 py-2 text-right">dBTP</th>
+                  <th className="px-3 py-2 text-right">Tilt</th>
+                  <th className="px-3 py-2 text-center">Low · Mid · High</th>
+                  <th className="px-3 py-2 text-left">Key</th>
+                  <th className="px-3 py-2 text-right">BPM</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800 font-mono">
+                {tracks.map((track, idx) => {
+                  const outlier = outliers[track.id];
+                  const isOutlier = outlier.loudness !== null || outlier.tilt !== null;
+                  const tilt = track.spectrum ? spectralTilt(track.spectrum) : null;
+                  const balance = track.analysis?.mixBalance;
+                  const key = track.musical?.key.key ?? track.analysis?.key;
+                  const bpm = track.musical ? Math.round(track.musical.tempo.bpm) : track.analysis?.bpm;
+                  return (
+                    <tr key={track.id} className={isOutlier ? 'bg-yellow-500/5' : ''}>
+                      <td className="px-3 py-2 text-slate-500">{idx + 1}</td>
+                      <td className="px-3 py-2 text-slate-300 font-sans max-w-[200px] truncate" title={track.analysis?.summary ?? track.file.name}>
+                        {track.file.name}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`flex items-center gap-1 ${track.status === 'error' ? 'text-red-400' : track.status === 'done' ? 'text-slate-400' : 'text-slate-500'}`} title={track.error ?? undefined}>
+                          {(track.status === 'measuring' || track.status === 'analyzing') && <Loader2 size={10} className="animate-spin" />}
+                          {STATUS_LABELS[track.status]}
+                        </span>
+                      </td>
+                      <td className={`px-3 py-2 text-right font-bold ${track.analysis ? getScoreColor(track.analysis.masteringScore) : 'text-slate-600'}`}>
+                        {track.analysis?.masteringScore ?? '—'}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${outlier.loudness !== null ? 'text-yellow-400 font-bold' : 'text-slate-300'}`}>
+                        {track.loudness && Number.isFinite(track.loudness.integrated) ? track.loudness.integrated.toFixed(1) : '—'}
+                        {outlier.loudness !== null && <span className="block text-[10px] font-normal">{formatDelta(outlier.loudness)} LU</span>}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${track.loudness && track.loudness.truePeak > -1 ? 'text-red-400' : 'text-slate-300'}`}>
+                        {track.loudness && Number.isFinite(track.loudness.truePeak) ? track.loudness.truePeak.toFixed(1) : '—'}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${outlier.tilt !== null ? 'text-yellow-400 font-bold' : 'text-slate-300'}`} title="Spectral slope, dB/octave">
+                        {tilt !== null ? tilt.toFixed(1) : '—'}
+                        {outlier.tilt !== null && <span className="block text-[10px] font-normal">{outlier.tilt > 0 ? 'brighter' : 'darker'}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        {balance ? (
+                          <span className="inline-flex gap-2">
+                            {[balance.low, balance.mid, balance.high].map(b => (
+                              <span key={b.band} className={BALANCE_COLORS[b.status]} title={b.description}>{b.status}</span>
+                            ))}
+                          </span>
+                        ) : <span className="text-slate-600">—</span>}
+                      </td>
+                      <td className="px-3 py-2 text-slate-300 whitespace-nowrap">{key ?? '—'}</td>
+                      <td className="px-3 py-2 text-right text-slate-300">{bpm ?? '—'}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => onOpen(track)}
+                          disabled={track.status !== 'done' || busy}
+                          title="Open this track and its report"
+                          className="p-1 rounded text-slate-400 hover:text-brand-accent disabled:opacity-30 disabled:cursor-not-allowed"
+                        >
+                          <ExternalLink size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {flagged > 0 && (
+            <p className="flex items-center gap-2 text-[10px] font-mono text-yellow-400">
+              <AlertTriangle size={12} />
+              {flagged} track{flagged === 1 ? '' : 's'} out of line with the rest (more than {LOUDNESS_OUTLIER_LU} LU or {TILT_OUTLIER_DB} dB/octave tilt from the median)
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
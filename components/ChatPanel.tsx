@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, PlayCircle, AlertCircle } from 'lucide-react';
+import { AudioAnalysis, ChatMessage } from '../types';
+import { AnalysisError } from '../services/analysisErrors';
+
+interface Props {
+  analysis: AudioAnalysis;
+  providerName: string | null;  // null when no provider can chat right now
+  sending: boolean;
+  error?: AnalysisError | null;
+  onSend: (message: string) => Promise<boolean>;  // Resolves true once the reply is in
+  onAudition?: (start: number, end: number) => void;
+}
+
+const SUGGESTIONS = [
+  'Which fix should I tackle first?',
+  'How would you fix the low-mid mud if the bass is a synth?',
+  'Is this loud enough for streaming?',
+];
+
+export const ChatPanel: React.FC<Props> = ({ analysis, providerName, sending, error = null, onSend, onAudition }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const messages: ChatMessage[] = analysis.conversation ?? [];
+
+  // Keep the newest turn in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages.length, sending]);
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!message || sending) return;
+    if (await onSend(message)) setDraft('');
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-2xl border border-slate-700 shadow-xl overflow-hidden flex flex-col">
+      <div className="p-4 bg-slate-900/90 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5 text-brand-accent" />
+          <h2 className="text-lg font-bold text-white">Ask the Engineer</h2>
+        </div>
+        {providerName && <span className="text-[10px] font-mono text-slate-500">{providerName}</span>}
+      </div>
+
+      <div ref={listRef} className="p-4 space-y-3 max-h-[420px] overflow-y-auto custom-scrollbar">
+        {messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">Follow up on the report. The engineer still has the audio and the analysis above.</p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => send(s)}
+                  disabled={!providerName || sending}
+                  className="text-xs px-2 py-1 rounded border border-slate-600 text-slate-300 hover:border-brand-accent/50 hover:text-brand-accent disabled:opacity-40 transition-colors"
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map((message, idx) => (
+          <div key={idx} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-xl px-3 py-2 text-sm ${message.role === 'user' ? 'bg-brand-accent/10 border border-brand-accent/30 text-slate-200' : 'bg-slate-900/60 border border-slate-700 text-slate-300'}`}>
+              <p className="whitespace-pre-wrap leading-relaxed">{message.text}</p>
+              {message.fixRefs && message.fixRefs.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {message.fixRefs.map(ref => {
+                    const fix = analysis.actionableFixes[ref];
+                    if (!fix) return null;
+                    return (
+                      <button
+                        key={ref}
+                        onClick={() => fix.start !== undefined && onAudition?.(fix.start, fix.end ?? fix.start + 5)}
+                        disabled={fix.start === undefined}
+                        title={fix.fix}
+                        className="flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded bg-brand-purple/10 text-brand-purple enabled:hover:bg-brand-purple/20 transition-colors"
+                      >
+                        {fix.start !== undefined && <PlayCircle size={10} />}
+                        #{ref + 1} {fix.frequency} · {fix.issue}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {sending && (
+          <div className="flex justify-start">
+            <div className="rounded-xl px-3 py-2 text-xs font-mono text-slate-500 bg-slate-900/60 border border-slate-700 animate-pulse">Listening back…</div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-2 flex items-center gap-2 text-xs text-red-400">
+          <AlertCircle size={12} /> {error.message}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); send(draft); }}
+        className="p-3 border-t border-slate-700 flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={!providerName || sending}
+          placeholder={providerName ? 'Ask about a fix, a band, a section…' : 'Follow-up questions need the cloud engine (API key and connection).'}
+          className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={!providerName || sending || !draft.trim()}
+          className="px-3 py-2 rounded-lg bg-brand-accent text-brand-dark hover:bg-brand-accent/90 disabled:opacity-40 transition-colors"
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
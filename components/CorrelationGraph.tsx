@@ -0,0 +1,44 @@
+import React from 'react';
+import { StereoMetrics } from '../types';
+
+interface Props {
+  metrics: StereoMetrics;
+}
+
+export const CorrelationGraph: React.FC<Props> = ({ metrics }) => {
+  const series = metrics.correlationSeries;
+  const total = Math.max(1, series.length - 1);
+
+  // Map correlation to SVG Y (+1 = top, -1 = bottom)
+  const toY = (c: number) => ((1 - c) / 2) * 100;
+
+  const path = (() => {
+    if (series.length < 2) return '';
+    const step = Math.max(1, Math.floor(series.length / 400));
+    const points: string[] = [];
+    for (let i = 0; i < series.length; i += step) {
+      points.push(`${((i / total) * 100).toFixed(2)},${toY(series[i]).toFixed(2)}`);
+    }
+    return `M${points.join(' L')}`;
+  })();
+
+  const duration = series.length * metrics.hopSeconds;
+
+  return (
+    <div className="relative h-20 bg-slate-950/50 rounded-lg border border-slate-800 overflow-hidden">
+      <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+        {/* Negative passages */}
+        {duration > 0 && metrics.negativePassages.map((p, i) => (
+          <rect key={i} x={(p.start / duration) * 100} width={((p.end - p.start) / duration) * 100} y="50" height="50" fill="#ef4444" opacity="0.2" />
+        ))}
+        <line x1="0" x2="100" y1="50" y2="50" stroke="#475569" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+        <path d={path} fill="none" stroke="#34d399" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="absolute left-1 top-0 bottom-0 flex flex-col justify-between text-[8px] font-mono text-slate-600 py-0.5 pointer-events-none">
+        <span>+1</span>
+        <span>0</span>
+        <span>-1</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { ClipboardCheck, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { DeliveryMeasurements, DeliveryProfileId, QcStatus } from '../types';
+import { DELIVERY_PROFILES, getDeliveryProfile } from '../services/deliveryProfiles';
+import { evaluateDelivery } from '../services/deliveryQc';
+
+interface Props {
+  measurements: DeliveryMeasurements;
+  profile: DeliveryProfileId;
+  onProfileChange: (profile: DeliveryProfileId) => void;
+}
+
+const STATUS_ICON: Record<QcStatus, React.ReactNode> = {
+  pass: <CheckCircle size={12} className="text-green-500 shrink-0" />,
+  warn: <AlertTriangle size={12} className="text-yellow-500 shrink-0" />,
+  fail: <XCircle size={12} className="text-red-500 shrink-0" />,
+};
+
+export const DeliveryChecklist: React.FC<Props> = ({ measurements, profile, onProfileChange }) => {
+  const report = evaluateDelivery(measurements, profile);
+  const failures = report.checks.filter(c => c.status === 'fail').length;
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-700/50 overflow-hidden">
+      <div className="p-3 bg-slate-900/80 border-b border-slate-700 flex items-center justify-between gap-2">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <ClipboardCheck size={14} className="text-brand-accent" /> Delivery QC
+        </h4>
+        <span className={`text-[10px] font-bold font-mono px-2 py-0.5 rounded border ${report.passed ? 'text-green-400 border-green-500/40 bg-green-500/10' : 'text-red-400 border-red-500/40 bg-red-500/10'}`}>
+          {report.passed ? 'PASS' : `FAIL · ${failures}`}
+        </span>
+      </div>
+      <div className="p-3 space-y-2">
+        <select
+          value={profile}
+          onChange={(e) => onProfileChange(e.target.value as DeliveryProfileId)}
+          title={getDeliveryProfile(profile).description}
+          className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300"
+        >
+          {DELIVERY_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <ul className="space-y-1.5">
+          {report.checks.map(c => (
+            <li key={c.id} className="flex items-start gap-2 text-xs">
+              <span className="mt-0.5">{STATUS_ICON[c.status]}</span>
+              <div className="min-w-0">
+                <span className="text-slate-300">{c.label}</span>
+                <p className="text-[10px] font-mono text-slate-500 leading-snug">{c.detail}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
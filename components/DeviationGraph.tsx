@@ -0,0 +1,58 @@
+import React, { useId } from 'react';
+import { SpectrumProfile } from '../types';
+import { frequencyToPosition, SPECTRUM_GRID_HZ } from '../services/spectrum';
+import { formatHz } from '../services/crossover';
+
+interface Props {
+  deviation: SpectrumProfile; // measured - target, dB
+  label?: string;
+}
+
+const RANGE_DB = 12;
+const DB_GRID = [12, 6, 0, -6, -12];
+
+export const DeviationGraph: React.FC<Props> = ({ deviation, label = 'Deviation from target (dB)' }) => {
+  const clipId = useId();
+  // +RANGE at the top, -RANGE at the bottom
+  const toY = (db: number) => ((RANGE_DB - Math.max(-RANGE_DB, Math.min(RANGE_DB, db))) / (2 * RANGE_DB)) * 100;
+  const points = deviation.frequencies.map((freq, i) => `${(frequencyToPosition(freq) * 100).toFixed(2)},${toY(deviation.levels[i]).toFixed(2)}`);
+  const first = frequencyToPosition(deviation.frequencies[0]) * 100;
+  const last = frequencyToPosition(deviation.frequencies[deviation.frequencies.length - 1]) * 100;
+  const zeroY = toY(0);
+
+  return (
+    <div>
+      <div className="relative h-28 bg-slate-950/60 border-t border-slate-700">
+        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+          <defs>
+            {/* Above the zero line = louder than target, below = quieter */}
+            <clipPath id={`${clipId}-above`}><rect x="0" y="0" width="100" height={zeroY} /></clipPath>
+            <clipPath id={`${clipId}-below`}><rect x="0" y={zeroY} width="100" height={100 - zeroY} /></clipPath>
+          </defs>
+
+          {SPECTRUM_GRID_HZ.map(f => (
+            <line key={f} x1={frequencyToPosition(f) * 100} x2={frequencyToPosition(f) * 100} y1="0" y2="100" stroke="#1e293b" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+          ))}
+          {DB_GRID.map(db => (
+            <line key={db} x1="0" x2="100" y1={toY(db)} y2={toY(db)} stroke={db === 0 ? '#64748b' : '#334155'} strokeWidth="1" strokeDasharray={db === 0 ? undefined : '2,3'} vectorEffect="non-scaling-stroke" />
+          ))}
+
+          <path d={`M${first},${zeroY} L${points.join(' L')} L${last},${zeroY} Z`} fill="#ef4444" opacity="0.25" clipPath={`url(#${clipId}-above)`} />
+          <path d={`M${first},${zeroY} L${points.join(' L')} L${last},${zeroY} Z`} fill="#38bdf8" opacity="0.25" clipPath={`url(#${clipId}-below)`} />
+          <path d={`M${points.join(' L')}`} fill="none" stroke="#e2e8f0" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        </svg>
+
+        <div className="absolute left-1 top-0 bottom-0 flex flex-col justify-between text-[8px] font-mono text-slate-500 py-0.5 pointer-events-none">
+          {DB_GRID.map(db => <span key={db}>{db > 0 ? `+${db}` : db}</span>)}
+        </div>
+        <span className="absolute top-1 right-2 text-[9px] font-mono text-slate-500 uppercase tracking-wider pointer-events-none">{label}</span>
+      </div>
+
+      <div className="relative h-4 bg-slate-950/60 text-[8px] font-mono text-slate-500">
+        {SPECTRUM_GRID_HZ.map(f => (
+          <span key={f} className="absolute -translate-x-1/2" style={{ left: `${frequencyToPosition(f) * 100}%` }}>{formatHz(f)}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from 'react';
+import { audioEngine } from '../services/audioEngine';
+
+export const Goniometer: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationRef = useRef<number | null>(null);
+  const correlationRef = useRef<HTMLDivElement>(null);
+  const correlationLabelRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    let left: Float32Array | null = null;
+    let right: Float32Array | null = null;
+    let smoothedCorrelation = 1;
+
+    const render = () => {
+      const analysers = audioEngine.getStereoAnalysers();
+      const size = canvas.width;
+      const half = size / 2;
+
+      // Phosphor-style fade instead of a hard clear
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.35)';
+      ctx.fillRect(0, 0, size, size);
+
+      // Axes: vertical = mono (M), diagonals = L / R
+      ctx.strokeStyle = '#334155';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(half, 0); ctx.lineTo(half, size);
+      ctx.moveTo(0, half); ctx.lineTo(size, half);
+      ctx.moveTo(0, 0); ctx.lineTo(size, size);
+      ctx.moveTo(size, 0); ctx.lineTo(0, size);
+      ctx.stroke();
+
+      if (analysers) {
+        if (!left || left.length !== analysers.left.fftSize) {
+          left = new Float32Array(analysers.left.fftSize);
+          right = new Float32Array(analysers.right.fftSize);
+        }
+        analysers.left.getFloatTimeDomainData(left);
+        analysers.right.getFloatTimeDomainData(right!);
+
+        ctx.fillStyle = '#38bdf8';
+        let ll = 0, rr = 0, lr = 0;
+        for (let i = 0; i < left.length; i++) {
+          const l = left[i];
+          const r = right![i];
+          ll += l * l; rr += r * r; lr += l * r;
+
+          // Rotate 45° so mono content sits on the vertical axis
+          const x = half + ((r - l) / Math.SQRT2) * half;
+          const y = half - ((l + r) / Math.SQRT2) * half;
+          ctx.fillRect(x, y, 1, 1);
+        }
+
+        const denom = Math.sqrt(ll * rr);
+        const instant = denom > 1e-9 ? lr / denom : 1;
+        smoothedCorrelation = smoothedCorrelation * 0.85 + instant * 0.15;
+
+        if (correlationRef.current) {
+          // -1 .. +1 mapped to 0% .. 100%
+          correlationRef.current.style.left = `${((smoothedCorrelation + 1) / 2) * 100}%`;
+          correlationRef.current.className = `absolute top-0 bottom-0 w-1 -translate-x-1/2 rounded ${smoothedCorrelation < 0 ? 'bg-red-500' : 'bg-brand-green'}`;
+        }
+        if (correlationLabelRef.current) {
+          correlationLabelRef.current.textContent = smoothedCorrelation.toFixed(2);
+        }
+      }
+
+      animationRef.current = requestAnimationFrame(render);
+    };
+
+    render();
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    };
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <canvas
+        ref={canvasRef}
+        width={200}
+        height={200}
+        className="w-48 h-48 rounded-xl bg-slate-900/50 backdrop-blur-sm shadow-inner border border-slate-700/50"
+      />
+      <div className="space-y-1">
+        <div className="relative h-2 bg-slate-800 rounded border border-slate-700">
+          <div className="absolute top-0 bottom-0 left-1/2 w-px bg-slate-600"></div>
+          <div ref={correlationRef} className="absolute top-0 bottom-0 w-1 -translate-x-1/2 rounded bg-brand-green" style={{ left: '100%' }}></div>
+        </div>
+        <div className="flex justify-between text-[9px] font-mono text-slate-500">
+          <span>-1</span>
+          <span>CORR <span ref={correlationLabelRef} className="text-slate-300">1.00</span></span>
+          <span>+1</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { LoudnessMetrics } from '../types';
+
+interface Props {
+  metrics: LoudnessMetrics;
+}
+
+const FLOOR_LUFS = -40;
+const CEIL_LUFS = 0;
+
+export const LoudnessGraph: React.FC<Props> = ({ metrics }) => {
+  // Map LUFS to SVG Y (0 = top / loud, 100 = bottom / quiet)
+  const toY = (lufs: number) => {
+    const clamped = Math.max(FLOOR_LUFS, Math.min(CEIL_LUFS, Number.isFinite(lufs) ? lufs : FLOOR_LUFS));
+    return ((CEIL_LUFS - clamped) / (CEIL_LUFS - FLOOR_LUFS)) * 100;
+  };
+
+  const toPath = (series: number[]) => {
+    if (series.length < 2) return '';
+    // Decimate long tracks so the path stays light
+    const step = Math.max(1, Math.floor(series.length / 400));
+    const points: string[] = [];
+    for (let i = 0; i < series.length; i += step) {
+      const x = (i / (series.length - 1)) * 100;
+      points.push(`${x.toFixed(2)},${toY(series[i]).toFixed(2)}`);
+    }
+    return `M${points.join(' L')}`;
+  };
+
+  const integratedY = toY(metrics.integrated);
+
+  return (
+    <div className="relative h-24 bg-slate-950/50 rounded-lg border border-slate-800 overflow-hidden">
+      <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+        {/* Grid every 10 LU */}
+        {[-10, -20, -30].map(l => (
+          <line key={l} x1="0" x2="100" y1={toY(l)} y2={toY(l)} stroke="#334155" strokeWidth="0.3" strokeDasharray="1,1" />
+        ))}
+
+        {/* Momentary (faint) */}
+        <path d={toPath(metrics.momentary)} fill="none" stroke="#818cf8" strokeWidth="0.4" opacity="0.35" vectorEffect="non-scaling-stroke" />
+
+        {/* Short-term */}
+        <path d={toPath(metrics.shortTerm)} fill="none" stroke="#38bdf8" strokeWidth="1.2" vectorEffect="non-scaling-stroke" />
+
+        {/* Integrated reference */}
+        {Number.isFinite(metrics.integrated) && (
+          <line x1="0" x2="100" y1={integratedY} y2={integratedY} stroke="#34d399" strokeWidth="1" strokeDasharray="3,2" vectorEffect="non-scaling-stroke" />
+        )}
+      </svg>
+      <div className="absolute top-1 right-2 flex gap-3 text-[9px] font-mono">
+        <span className="text-brand-accent">S</span>
+        <span className="text-brand-purple">M</span>
+        <span className="text-brand-green">I</span>
+      </div>
+      <div className="absolute left-1 top-0 bottom-0 flex flex-col justify-between text-[8px] font-mono text-slate-600 py-0.5 pointer-events-none">
+        <span>0</span>
+        <span>-{Math.abs(FLOOR_LUFS)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Save, Trash2, Gauge } from 'lucide-react';
+import { EqMove, LimiterMode, LoudnessMetrics, MasteringChainSettings, MasteringMeters, MasteringPreset, MasteringSlotId } from '../types';
+import { audioEngine } from '../services/audioEngine';
+import { deletePreset, listPresets, savePreset } from '../services/projectStore';
+import {
+  applyPreset, BUILT_IN_PRESETS, driveForTarget, LOUDNESS_TARGETS, MASTERING_SLOTS, MAX_DRIVE_DB, MIN_DRIVE_DB, presetFromChain,
+} from '../services/masteringChain';
+
+interface Props {
+  loudness: LoudnessMetrics | null;  // Measured mix loudness, for the push-to-target drive
+}
+
+const METER_RANGE_DB = 12;
+const METER_STEP_DB = 0.1; // Smaller meter changes don't re-render
+
+const EQ_TYPE_LABELS: Record<EqMove['type'], string> = {
+  highpass: 'HPF',
+  lowshelf: 'Low Shelf',
+  peaking: 'Bell',
+  highshelf: 'High Shelf',
+};
+
+const ParamSlider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, unit, onChange }) => (
+  <label className="block">
+    <div className="flex justify-between text-[10px] uppercase tracking-widest text-slate-500">
+      <span>{label}</span>
+      <span className="font-mono normal-case tracking-normal text-slate-300">{value > 0 && unit === 'dB' ? '+' : ''}{value}{unit && ` ${unit}`}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-brand-accent cursor-pointer"
+    />
+  </label>
+);
+
+/** Horizontal meter; gain reduction grows from the right, EQ level change from the centre. */
+const SlotMeter: React.FC<{ value: number; bipolar?: boolean; active: boolean }> = ({ value, bipolar = false, active }) => {
+  const amount = Math.min(1, Math.abs(value) / METER_RANGE_DB);
+  const style = bipolar
+    ? value >= 0 ? { left: '50%', width: `${amount * 50}%` } : { right: '50%', width: `${amount * 50}%` }
+    : { right: 0, width: `${amount * 100}%` };
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-[10px] uppercase tracking-widest text-slate-500 w-6">{bipolar ? 'Δ' : 'GR'}</span>
+      <div className="relative flex-1 h-2 bg-slate-900 rounded overflow-hidden border border-slate-700">
+        {bipolar && <div className="absolute inset-y-0 left-1/2 w-px bg-slate-600" />}
+        {active && <div className={`absolute inset-y-0 ${bipolar ? 'bg-brand-accent' : 'bg-yellow-500'}`} style={style} />}
+      </div>
+      <span className="w-14 text-right text-[10px] font-mono text-slate-400">{active ? `${value.toFixed(1)} dB` : '—'}</span>
+    </div>
+  );
+};
+
+export const MasteringChain: React.FC<Props> = ({ loudness }) => {
+  // The engine keeps the chain across files; start from whatever it is running
+  const [settings, setSettings] = useState<MasteringChainSettings>(() => audioEngine.getMasteringChain());
+  const [meters, setMeters] = useState<MasteringMeters>({ eq: 0, compressor: 0, limiter: 0 });
+  const [limiterMode, setLimiterMode] = useState<LimiterMode>(() => audioEngine.getLimiterMode());
+  const [userPresets, setUserPresets] = useState<MasteringPreset[]>([]);
+  const [selected, setSelected] = useState<Record<MasteringSlotId, string>>({ eq: '', compressor: '', limiter: '' });
+  const [savingSlot, setSavingSlot] = useState<MasteringSlotId | null>(null);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    audioEngine.setMasteringChain(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    listPresets().then(setUserPresets).catch(err => console.error(err));
+  }, []);
+
+  useEffect(() => {
+    let frameId: number;
+    const tick = () => {
+      const next = audioEngine.getMasteringMeters();
+      setMeters(prev => MASTERING_SLOTS.some(({ id }) => Math.abs(next[id] - prev[id]) >= METER_STEP_DB) ? next : prev);
+      setLimiterMode(audioEngine.getLimiterMode());
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  const update = <S extends MasteringSlotId>(slot: S, changes: Partial<MasteringChainSettings[S]>) => {
+    setSettings(prev => ({ ...prev, [slot]: { ...prev[slot], ...changes } }));
+    // Any edit that isn't a bypass toggle turns the slot back into custom settings
+    if (!('bypass' in changes)) setSelected(prev => ({ ...prev, [slot]: '' }));
+  };
+
+  const updateBand = (index: number, changes: Partial<EqMove>) => {
+    update('eq', { bands: settings.eq.bands.map((band, i) => i === index ? { ...band, ...changes } : band) });
+  };
+
+  const handleSelectPreset = (slot: MasteringSlotId, id: string) => {
+    const preset = [...BUILT_IN_PRESETS, ...userPresets].find(p => p.id === id);
+    if (!preset) return;
+    setSettings(prev => applyPreset(prev, preset));
+    setSelected(prev => ({ ...prev, [slot]: id }));
+  };
+
+  const handleSavePreset = async (slot: MasteringSlotId) => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset = presetFromChain(settings, slot, name);
+    try {
+      await savePreset(preset);
+      setUserPresets(prev => [...prev, preset]);
+      setSelected(prev => ({ ...prev, [slot]: preset.id }));
+      setSavingSlot(null);
+      setPresetName('');
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDeletePreset = async (slot: MasteringSlotId, preset: MasteringPreset) => {
+    if (!window.confirm(`Delete preset "${preset.name}"?`)) return;
+    try {
+      await deletePreset(preset.id);
+      setUserPresets(prev => prev.filter(p => p.id !== preset.id));
+      setSelected(prev => ({ ...prev, [slot]: '' }));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handlePushToTarget = (target: number) => {
+    if (!loudness) return;
+    update('limiter', { drive: driveForTarget(loudness, target), bypass: false });
+  };
+
+  const renderControls = (slot: MasteringSlotId) => {
+    switch (slot) {
+      case 'eq':
+        return (
+          <div className="space-y-2">
+            {settings.eq.bands.map((band, i) => (
+              <div key={i} className="grid grid-cols-[4.5rem_1fr_1fr_1fr] gap-1 items-center text-xs">
+                <span className="text-[10px] uppercase tracking-widest text-slate-500">{EQ_TYPE_LABELS[band.type]}</span>
+                <input
+                  type="number" min={20} max={20000} step={1} value={band.frequency}
+                  onChange={(e) => updateBand(i, { frequency: Math.max(20, Math.min(20000, parseFloat(e.target.value) || 20)) })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300"
+                  title="Frequency (Hz)"
+                />
+                <input
+                  type="number" min={-12} max={12} step={0.5} value={band.gain} disabled={band.type === 'highpass'}
+                  onChange={(e) => updateBand(i, { gain: Math.max(-12, Math.min(12, parseFloat(e.target.value) || 0)) })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 disabled:opacity-30"
+                  title="Gain (dB)"
+                />
+                <input
+                  type="number" min={0.1} max={10} step={0.1} value={Math.round(band.q * 100) / 100}
+                  onChange={(e) => updateBand(i, { q: Math.max(0.1, Math.min(10, parseFloat(e.target.value) || 1)) })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300"
+                  title="Q"
+                />
+              </div>
+            ))}
+          </div>
+        );
+      case 'compressor': {
+        const comp = settings.compressor;
+        return (
+          <div className="space-y-2">
+            <ParamSlider label="Threshold" value={comp.threshold} min={-40} max={0} step={0.5} unit="dB" onChange={(v) => update('compressor', { threshold: v })} />
+            <ParamSlider label="Ratio" value={comp.ratio} min={1} max={10} step={0.1} unit=": 1" onChange={(v) => update('compressor', { ratio: v })} />
+            <ParamSlider label="Attack" value={comp.attack} min={1} max={100} step={1} unit="ms" onChange={(v) => update('compressor', { attack: v })} />
+            <ParamSlider label="Release" value={comp.release} min={20} max={1000} step={10} unit="ms" onChange={(v) => update('compressor', { release: v })} />
+            <ParamSlider label="Knee" value={comp.knee} min={0} max={20} step={1} unit="dB" onChange={(v) => update('compressor', { knee: v })} />
+            <ParamSlider label="Makeup" value={comp.makeup} min={0} max={12} step={0.5} unit="dB" onChange={(v) => update('compressor', { makeup: v })} />
+          </div>
+        );
+      }
+      case 'limiter': {
+        const lim = settings.limiter;
+        return (
+          <div className="space-y-2">
+            <ParamSlider label="Drive" value={lim.drive} min={MIN_DRIVE_DB} max={MAX_DRIVE_DB} step={0.1} unit="dB" onChange={(v) => update('limiter', { drive: v })} />
+            <ParamSlider label="Ceiling" value={lim.ceiling} min={-6} max={0} step={0.1} unit="dBFS" onChange={(v) => update('limiter', { ceiling: v })} />
+            <ParamSlider label="Release" value={lim.release} min={10} max={1000} step={10} unit="ms" onChange={(v) => update('limiter', { release: v })} />
+            {limiterMode === 'fallback' && (
+              <p className="text-[10px] text-yellow-500 leading-snug">
+                The lookahead limiter can't run in this browser; a compressor stands in, so fast peaks may pass the ceiling.
+              </p>
+            )}
+            <div className="pt-1">
+              <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">
+                Push to {loudness && <span className="normal-case tracking-normal font-mono">(mix {loudness.integrated.toFixed(1)} LUFS)</span>}
+              </div>
+              <div className="flex gap-1">
+                {LOUDNESS_TARGETS.map(target => (
+                  <button
+                    key={target}
+                    onClick={() => handlePushToTarget(target)}
+                    disabled={!loudness}
+                    title={`Drive the limiter so the mix lands around ${target} LUFS`}
+                    className="flex-1 text-[10px] font-mono px-1 py-1 rounded border border-slate-600 text-slate-300 enabled:hover:border-brand-accent/50 enabled:hover:text-brand-accent disabled:opacity-40 transition-colors"
+                  >
+                    {target}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-2xl border border-slate-700/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center">
+            <SlidersHorizontal className="text-brand-accent" size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-200">Mastering Preview</h3>
+            <p className="text-xs text-slate-500">Hear how the mix reacts to mastering. Monitoring only; exports stay unprocessed.</p>
+          </div>
+        </div>
+        <Gauge className="text-slate-600" size={18} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {MASTERING_SLOTS.map(({ id, name }) => {
+          const bypassed = settings[id].bypass;
+          const presets = [...BUILT_IN_PRESETS, ...userPresets].filter(p => p.slot === id);
+          const selectedPreset = userPresets.find(p => p.id === selected[id]);
+          return (
+            <div key={id} className={`bg-slate-800/80 rounded-xl p-4 border transition-colors space-y-3 ${bypassed ? 'border-slate-700/50' : 'border-brand-accent/30'}`}>
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-slate-100 text-sm tracking-wide">{name}</h4>
+                <button
+                  onClick={() => update(id, { bypass: !bypassed })}
+                  className={`px-2 py-0.5 rounded border text-xs transition-colors ${bypassed ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-400' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+                >
+                  {bypassed ? 'BYPASSED' : 'BYPASS'}
+                </button>
+              </div>
+
+              <SlotMeter value={meters[id]} bipolar={id === 'eq'} active={!bypassed} />
+
+              <div className="flex items-center gap-1 text-xs">
+                <select
+                  value={selected[id]}
+                  onChange={(e) => handleSelectPreset(id, e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300"
+                >
+                  <option value="" disabled>Custom</option>
+                  {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {selectedPreset && (
+                  <button
+                    onClick={() => handleDeletePreset(id, selectedPreset)}
+                    title="Delete preset"
+                    className="p-1.5 rounded text-slate-500 hover:text-red-400 transition-colors"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+                <button
+                  onClick={() => { setSavingSlot(savingSlot === id ? null : id); setPresetName(''); }}
+                  title="Save as preset"
+                  className={`p-1.5 rounded transition-colors ${savingSlot === id ? 'text-brand-accent' : 'text-slate-500 hover:text-white'}`}
+                >
+                  <Save size={12} />
+                </button>
+              </div>
+              {savingSlot === id && (
+                <form onSubmit={(e) => { e.preventDefault(); handleSavePreset(id); }} className="flex gap-1">
+                  <input
+                    autoFocus
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setSavingSlot(null); }}
+                    placeholder="Preset name"
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200"
+                  />
+                  <button type="submit" disabled={!presetName.trim()} className="px-2 py-1 rounded bg-brand-accent text-brand-dark text-xs disabled:opacity-40">
+                    Save
+                  </button>
+                </form>
+              )}
+
+              <div className={bypassed ? 'opacity-50' : ''}>{renderControls(id)}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { FolderOpen, Plus, Trash2, Upload, X, FileAudio, Pencil, GitCompare } from 'lucide-react';
+import { Project, Revision } from '../types';
+
+interface Props {
+  projects: Project[];
+  revisions: Revision[];            // Revisions of the active project, oldest first
+  activeProjectId: string | null;
+  activeHash: string | null;
+  busy: boolean;
+  onClose: () => void;
+  onNewProject: () => void;
+  onSelectProject: (id: string) => void;
+  onOpenRevision: (revision: Revision) => void;
+  onCompareRevision: (revision: Revision) => void;  // Diff against the open revision
+  onUploadRevision: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => void;
+  onDeleteRevision: (hash: string) => void;
+}
+
+const formatDate = (ms: number) => new Date(ms).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const getScoreColor = (score: number) => {
+  if (score >= 90) return 'text-green-400 border-green-500/40';
+  if (score >= 75) return 'text-yellow-400 border-yellow-500/40';
+  return 'text-red-400 border-red-500/40';
+};
+
+export const ProjectLibrary: React.FC<Props> = ({
+  projects, revisions, activeProjectId, activeHash, busy,
+  onClose, onNewProject, onSelectProject, onOpenRevision, onCompareRevision, onUploadRevision, onRenameProject, onDeleteProject, onDeleteRevision,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRenameProject(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="fixed top-[73px] bottom-0 left-0 w-80 z-40 bg-brand-panel/95 backdrop-blur-md border-r border-slate-700 shadow-2xl flex flex-col">
+      <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <FolderOpen size={16} className="text-brand-accent" /> Project Library
+        </h2>
+        <div className="flex items-center gap-1">
+          <button onClick={onNewProject} title="New song" className="p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white">
+            <Plus size={16} />
+          </button>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {projects.length === 0 && (
+          <p className="p-4 text-xs text-slate-500">Uploaded mixes are kept here with their analysis, metrics and console settings.</p>
+        )}
+
+        {projects.map(project => {
+          const isActive = project.id === activeProjectId;
+          return (
+            <div key={project.id} className={`border-b border-slate-800 ${isActive ? 'bg-slate-800/40' : ''}`}>
+              <div className="group flex items-center gap-2 px-4 py-3">
+                {editingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-slate-200"
+                  />
+                ) : (
+                  <button onClick={() => onSelectProject(project.id)} disabled={busy} className="flex-1 text-left min-w-0">
+                    <span className={`block text-sm font-medium truncate ${isActive ? 'text-brand-accent' : 'text-slate-200'}`}>{project.name}</span>
+                    <span className="block text-[10px] font-mono text-slate-500">{formatDate(project.updatedAt)}</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => { setEditingId(project.id); setDraftName(project.name); }}
+                  title="Rename"
+                  className="p-1 rounded text-slate-500 hover:text-white opacity-0 group-hover:opacity-100"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={() => { if (window.confirm(`Delete "${project.name}" and all its revisions?`)) onDeleteProject(project.id); }}
+                  title="Delete song"
+                  className="p-1 rounded text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+
+              {isActive && (
+                <div className="pb-3">
+                  {revisions.map((revision, idx) => (
+                    <div
+                      key={revision.hash}
+                      className={`group mx-2 flex items-center gap-2 px-2 py-1.5 rounded ${revision.hash === activeHash ? 'bg-brand-accent/10 border border-brand-accent/30' : 'border border-transparent hover:bg-slate-700/40'}`}
+                    >
+                      <button onClick={() => onOpenRevision(revision)} disabled={busy} className="flex-1 flex items-center gap-2 text-left min-w-0">
+                        <FileAudio size={14} className="text-slate-500 shrink-0" />
+                        <span className="min-w-0">
+                          <span className="block text-xs text-slate-300 truncate">
+                            <span className="font-mono text-slate-500 mr-1">R{idx + 1}</span>{revision.fileName}
+                          </span>
+                          <span className="block text-[10px] font-mono text-slate-500">{formatDate(revision.createdAt)}</span>
+                        </span>
+                      </button>
+                      {revision.analysis && (
+                        <span className={`text-[10px] font-mono font-bold px-1.5 rounded border ${getScoreColor(revision.analysis.masteringScore)}`} title="Mastering score">
+                          {revision.analysis.masteringScore}
+                        </span>
+                      )}
+                      {activeHash && revision.hash !== activeHash && (
+                        <button
+                          onClick={() => onCompareRevision(revision)}
+                          title="Compare with the open revision"
+                          className="p-1 rounded text-slate-500 hover:text-brand-accent opacity-0 group-hover:opacity-100"
+                        >
+                          <GitCompare size={12} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => { if (window.confirm(`Delete revision "${revision.fileName}"?`)) onDeleteRevision(revision.hash); }}
+                        title="Delete revision"
+                        className="p-1 rounded text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+
+                  <label className={`mx-2 mt-2 flex items-center justify-center gap-2 px-2 py-1.5 rounded border border-dashed border-slate-600 text-xs text-slate-400 hover:text-brand-accent hover:border-brand-accent/50 ${busy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                    <Upload size={12} /> Add revision
+                    <input type="file" className="hidden" accept="audio/*" onChange={onUploadRevision} disabled={busy} />
+                  </label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { GitCompare, X, CheckCircle, AlertTriangle, PlusCircle, ArrowRight } from 'lucide-react';
+import { MixIssue, Revision } from '../types';
+import { DeviationGraph } from './DeviationGraph';
+import { diffRevisions, MetricChange } from '../services/revisionDiff';
+
+interface Props {
+  before: Revision;
+  after: Revision;
+  beforeLabel: string;  // e.g. "R1"
+  afterLabel: string;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  Good: 'text-emerald-400',
+  Cut: 'text-red-400',
+  Boost: 'text-yellow-400',
+};
+
+const formatDelta = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const IssueRow: React.FC<{ issue: MixIssue; note?: string }> = ({ issue, note }) => (
+  <div className="px-3 py-2 text-xs">
+    <div className="flex justify-between gap-2">
+      <span className="text-slate-300">{issue.issue}</span>
+      <span className="font-mono text-brand-accent shrink-0">{issue.frequency}</span>
+    </div>
+    {note && <span className="text-[10px] font-mono text-slate-500">{note}</span>}
+  </div>
+);
+
+const IssueGroup: React.FC<{ title: string; icon: React.ReactNode; count: number; children: React.ReactNode }> = ({ title, icon, count, children }) => (
+  <div className="bg-slate-900/30 rounded-xl border border-slate-700/50 overflow-hidden">
+    <div className="p-3 bg-slate-900/80 border-b border-slate-700 flex items-center justify-between">
+      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">{icon} {title}</h4>
+      <span className="text-[10px] text-slate-500">{count}</span>
+    </div>
+    <div className="divide-y divide-slate-800">
+      {count === 0 ? <p className="px-3 py-2 text-xs text-slate-600">None</p> : children}
+    </div>
+  </div>
+);
+
+const MetricCell: React.FC<{ metric: MetricChange }> = ({ metric }) => (
+  <div className="bg-slate-900/50 p-3 rounded-xl border border-slate-700/50">
+    <h5 className="text-[10px] text-slate-500 uppercase tracking-widest mb-1">{metric.label}</h5>
+    <div className="font-mono text-sm text-slate-200">{formatDelta(metric.delta)} <span className="text-[10px] text-slate-500">{metric.unit === 'LUFS' ? 'LU' : metric.unit}</span></div>
+    <div className="font-mono text-[10px] text-slate-500">{metric.before.toFixed(1)} → {metric.after.toFixed(1)} {metric.unit}</div>
+  </div>
+);
+
+export const RevisionDiffPanel: React.FC<Props> = ({ before, after, beforeLabel, afterLabel, onClose }) => {
+  const diff = useMemo(() => diffRevisions(before, after), [before, after]);
+  const scoreDelta = diff.scoreBefore !== null && diff.scoreAfter !== null ? diff.scoreAfter - diff.scoreBefore : null;
+
+  return (
+    <div className="bg-brand-panel p-6 rounded-2xl border border-slate-700 shadow-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <GitCompare className="text-brand-accent" size={18} /> Revision Diff
+          <span className="text-xs font-mono text-slate-400 font-normal">
+            {beforeLabel} <span className="text-slate-600">{before.fileName}</span> → {afterLabel} <span className="text-slate-600">{after.fileName}</span>
+          </span>
+        </h2>
+        <button onClick={onClose} title="Close" className="p-1.5 rounded hover:bg-slate-700 text-slate-400 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {/* Score */}
+        <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700/50 flex flex-col items-center justify-center">
+          <h5 className="text-[10px] text-slate-500 uppercase tracking-widest mb-1">Mastering Score</h5>
+          {scoreDelta !== null ? (
+            <>
+              <span className={`text-3xl font-bold font-mono ${scoreDelta > 0 ? 'text-green-400' : scoreDelta < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+                {scoreDelta > 0 ? '+' : ''}{scoreDelta}
+              </span>
+              <span className="text-[10px] font-mono text-slate-500">{diff.scoreBefore} → {diff.scoreAfter}</span>
+            </>
+          ) : (
+            <span className="text-xs text-slate-500 text-center">Run the diagnosis on both revisions to compare scores.</span>
+          )}
+        </div>
+
+        {/* Band balance */}
+        <div className="md:col-span-3 bg-slate-900/50 p-4 rounded-xl border border-slate-700/50">
+          <h5 className="text-[10px] text-slate-500 uppercase tracking-widest mb-2">Mix Balance</h5>
+          {diff.balance.length > 0 ? (
+            <div className="grid grid-cols-3 gap-3">
+              {diff.balance.map(change => (
+                <div key={change.band} className={`p-2 rounded border ${change.before !== change.after ? 'border-brand-accent/40 bg-brand-accent/5' : 'border-slate-800'}`}>
+                  <span className="block text-[10px] font-bold text-slate-400 uppercase">{change.band}</span>
+                  <span className="flex items-center gap-1 text-xs font-bold">
+                    <span className={STATUS_COLORS[change.before]}>{change.before}</span>
+                    <ArrowRight size={12} className="text-slate-600" />
+                    <span className={STATUS_COLORS[change.after]}>{change.after}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">No analysis stored for one of the revisions.</p>
+          )}
+        </div>
+      </div>
+
+      {diff.loudness.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {diff.loudness.map(metric => <MetricCell key={metric.label} metric={metric} />)}
+        </div>
+      )}
+
+      {diff.spectrum && (
+        <div className="bg-slate-900 rounded-xl border border-slate-700 overflow-hidden">
+          <DeviationGraph deviation={diff.spectrum} label={`Tonal change ${beforeLabel} → ${afterLabel} (dB)`} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <IssueGroup title="Resolved" icon={<CheckCircle size={14} className="text-green-400" />} count={diff.resolved.length}>
+          {diff.resolved.map((issue, idx) => <IssueRow key={idx} issue={issue} />)}
+        </IssueGroup>
+        <IssueGroup title="Persisting" icon={<AlertTriangle size={14} className="text-yellow-400" />} count={diff.persisting.length}>
+          {diff.persisting.map((pair, idx) => (
+            <IssueRow
+              key={idx}
+              issue={pair.after}
+              note={pair.before.severity !== pair.after.severity ? `${pair.before.severity} → ${pair.after.severity}` : undefined}
+            />
+          ))}
+        </IssueGroup>
+        <IssueGroup title="New" icon={<PlusCircle size={14} className="text-red-400" />} count={diff.introduced.length}>
+          {diff.introduced.map((issue, idx) => <IssueRow key={idx} issue={issue} />)}
+        </IssueGroup>
+      </div>
+    </div>
+  );
+};
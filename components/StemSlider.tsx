@@ -9,7 +9,7 @@ interface Props {
   disabled?: boolean;
   onVolumeChange: (val: number) => void;
   onToggleMute: () => void;
-  onExport: (id: 'low' | 'mid' | 'high') => Promise<void>;
+  onExport: (id: string) => Promise<void>;
 }
 
 export const StemSlider: React.FC<Props> = ({ stem, volume, isMuted, disabled = false, onVolumeChange, onToggleMute, onExport }) => {
@@ -1,56 +1,345 @@
-import React, { useEffect, useRef } from 'react';
-import { audioEngine } from '../services/audioEngine';
+import React, { useEffect, useRef, useState } from 'react';
+import { Snowflake, BarChart3, Waves, ArrowUpToLine, Crosshair, Flag } from 'lucide-react';
+import { HunterBand, SpectrumProfile, StemControl } from '../types';
+import { audioEngine, HUNTER_BOOST_DB, HUNTER_Q } from '../services/audioEngine';
+import { frequencyToPosition, positionToFrequency, spectrumDifference, SPECTRUM_MIN_HZ, SPECTRUM_MAX_HZ } from '../services/spectrum';
+import { formatHz } from '../services/crossover';
 
-export const Visualizer: React.FC = () => {
+export interface SpectrumOverlay {
+  mix: SpectrumProfile;
+  reference: SpectrumProfile; // Already loudness-matched to the mix
+}
+
+interface Props {
+  overlay?: SpectrumOverlay | null;
+  stems?: StemControl[];
+  hunter?: HunterBand | null;
+  onHunt?: (band: HunterBand | null) => void;  // Enables the problem hunter
+  onMarkHunt?: () => void;                     // Saves the hunted frequency; absent when there's nowhere to save it
+}
+
+type DisplayMode = 'spectrum' | 'spectrogram';
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 200;
+const OVERLAY_RANGE_DB = 60;
+const DIFF_RANGE_DB = 12;
+
+// dBFS display range
+const FLOOR_DB = -100;
+const CEIL_DB = 0;
+const DB_GRID = [-12, -24, -36, -48, -60, -72, -84];
+const AXIS_HZ = [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+// AnalyserNode applies a Blackman window (coherent gain 0.42) and reports |X|/N,
+// so a full-scale sine reads 20*log10(0.5 * 0.42). Shift it back to 0 dBFS.
+const SINE_CORRECTION_DB = -20 * Math.log10(0.5 * 0.42);
+
+const PEAK_HOLD_SECONDS = 1.0;
+const PEAK_DECAY_DB_PER_SECOND = 20;
+
+// Octave bandwidth of the hunting filter, from its Q
+const HUNTER_OCTAVES = (2 / Math.LN2) * Math.asinh(1 / (2 * HUNTER_Q));
+
+const freqToX = (freq: number, width: number) => frequencyToPosition(freq) * width;
+const dbToUnit = (db: number) => Math.max(0, Math.min(1, (db - FLOOR_DB) / (CEIL_DB - FLOOR_DB)));
+
+/** Spectrogram palette: dark navy -> accent blue -> purple -> white hot */
+const heatColour = (unit: number): string => {
+  const stops: [number, number, number][] = [[15, 23, 42], [56, 189, 248], [129, 140, 248], [244, 114, 182], [255, 255, 255]];
+  const pos = unit * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(pos));
+  const t = pos - i;
+  const [r0, g0, b0] = stops[i];
+  const [r1, g1, b1] = stops[i + 1];
+  return `rgb(${Math.round(r0 + (r1 - r0) * t)}, ${Math.round(g0 + (g1 - g0) * t)}, ${Math.round(b0 + (b1 - b0) * t)})`;
+};
+
+/**
+ * Resamples linear FFT bins onto log-spaced pixel columns.
+ * Columns spanning several bins take the max, columns between bins interpolate.
+ */
+const binsToColumns = (bins: Float32Array, binHz: number, columns: number, out: Float32Array) => {
+  const ratio = SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ;
+  for (let x = 0; x < columns; x++) {
+    const f0 = SPECTRUM_MIN_HZ * Math.pow(ratio, x / columns);
+    const f1 = SPECTRUM_MIN_HZ * Math.pow(ratio, (x + 1) / columns);
+    const k0 = f0 / binHz;
+    const k1 = f1 / binHz;
+
+    if (Math.floor(k1) > Math.floor(k0)) {
+      let max = -Infinity;
+      for (let k = Math.ceil(k0); k <= Math.min(bins.length - 1, Math.floor(k1)); k++) {
+        if (bins[k] > max) max = bins[k];
+      }
+      out[x] = max;
+    } else {
+      const k = Math.min(bins.length - 2, Math.floor(k0));
+      const t = k0 - k;
+      out[x] = bins[k] * (1 - t) + bins[k + 1] * t;
+    }
+    out[x] += SINE_CORRECTION_DB;
+  }
+};
+
+const drawProfile = (ctx: CanvasRenderingContext2D, profile: SpectrumProfile, width: number, toY: (db: number) => number) => {
+  ctx.beginPath();
+  profile.frequencies.forEach((freq, i) => {
+    const x = freqToX(freq, width);
+    const y = toY(profile.levels[i]);
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+};
+
+const drawOverlay = (ctx: CanvasRenderingContext2D, overlay: SpectrumOverlay, width: number, height: number) => {
+  // Both curves share one dB scale, anchored to the loudest band of either
+  const top = Math.max(...overlay.mix.levels, ...overlay.reference.levels);
+  const toY = (db: number) => Math.min(height, ((top - db) / OVERLAY_RANGE_DB) * height * 0.75);
+
+  ctx.save();
+  ctx.lineWidth = 2;
+
+  ctx.setLineDash([6, 4]);
+  ctx.strokeStyle = 'rgba(251, 146, 60, 0.9)'; // Reference: orange, dashed
+  drawProfile(ctx, overlay.reference, width, toY);
+
+  ctx.setLineDash([]);
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)'; // Mix: white
+  drawProfile(ctx, overlay.mix, width, toY);
+
+  // Difference (mix - reference) around a centre line in the lower quarter
+  const diff = spectrumDifference(overlay.mix, overlay.reference);
+  const centre = height * 0.875;
+  const span = height * 0.1;
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = 'rgba(148, 163, 184, 0.4)';
+  ctx.beginPath();
+  ctx.moveTo(0, centre);
+  ctx.lineTo(width, centre);
+  ctx.stroke();
+
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = '#34d399';
+  drawProfile(ctx, diff, width, db => centre - (Math.max(-DIFF_RANGE_DB, Math.min(DIFF_RANGE_DB, db)) / DIFF_RANGE_DB) * span);
+
+  ctx.fillStyle = 'rgba(148, 163, 184, 0.8)';
+  ctx.font = '10px monospace';
+  ctx.fillText(`MIX − REF (±${DIFF_RANGE_DB} dB)`, 6, centre - span - 2);
+  ctx.restore();
+};
+
+const drawBandRegions = (ctx: CanvasRenderingContext2D, stems: StemControl[], width: number, height: number, vertical: boolean) => {
+  ctx.save();
+  stems.forEach((stem, i) => {
+    const p0 = frequencyToPosition(stem.lowHz);
+    const p1 = frequencyToPosition(stem.highHz);
+    ctx.globalAlpha = 0.06;
+    ctx.fillStyle = stem.hex;
+    if (vertical) {
+      ctx.fillRect(p0 * width, 0, (p1 - p0) * width, height);
+    } else {
+      // Spectrogram: low frequencies at the bottom
+      ctx.fillRect(0, height - p1 * height, width, (p1 - p0) * height);
+    }
+
+    // Crossover line at the top edge of each band but the last
+    if (i < stems.length - 1) {
+      ctx.globalAlpha = 0.6;
+      ctx.strokeStyle = stem.hex;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      if (vertical) {
+        ctx.moveTo(p1 * width, 0);
+        ctx.lineTo(p1 * width, height);
+      } else {
+        ctx.moveTo(0, height - p1 * height);
+        ctx.lineTo(width, height - p1 * height);
+      }
+      ctx.stroke();
+    }
+  });
+  ctx.restore();
+};
+
+const drawHunter = (ctx: CanvasRenderingContext2D, hunter: HunterBand, width: number, height: number, vertical: boolean) => {
+  const p = frequencyToPosition(hunter.frequency);
+  const p0 = frequencyToPosition(hunter.frequency * Math.pow(2, -HUNTER_OCTAVES / 2));
+  const p1 = frequencyToPosition(hunter.frequency * Math.pow(2, HUNTER_OCTAVES / 2));
+  const label = `${formatHz(hunter.frequency)} ${hunter.mode.toUpperCase()}`;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(251, 191, 36, 0.15)';
+  ctx.strokeStyle = 'rgba(251, 191, 36, 0.9)';
+  ctx.lineWidth = 1;
+  ctx.font = 'bold 10px monospace';
+  ctx.beginPath();
+  if (vertical) {
+    ctx.fillRect(p0 * width, 0, (p1 - p0) * width, height);
+    ctx.moveTo(p * width, 0);
+    ctx.lineTo(p * width, height);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(251, 191, 36, 1)';
+    // Keep the label on the canvas at either end of the axis
+    const textX = p > 0.85 ? p * width - ctx.measureText(label).width - 4 : p * width + 4;
+    ctx.fillText(label, textX, 26);
+  } else {
+    ctx.fillRect(0, height - p1 * height, width, (p1 - p0) * height);
+    ctx.moveTo(0, height - p * height);
+    ctx.lineTo(width, height - p * height);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(251, 191, 36, 1)';
+    ctx.fillText(label, 4, Math.max(12, height - p * height - 4));
+  }
+  ctx.restore();
+};
+
+export const Visualizer: React.FC<Props> = ({ overlay = null, stems = [], hunter = null, onHunt, onMarkHunt }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
+  const [mode, setMode] = useState<DisplayMode>('spectrum');
+  const [peakHold, setPeakHold] = useState(true);
+  const [frozen, setFrozen] = useState(false);
+  const [hunting, setHunting] = useState(false);
+  const [huntMode, setHuntMode] = useState<HunterBand['mode']>('boost');
+  const draggingRef = useRef(false);
+
+  // Render loop reads the latest props/settings through refs
+  const overlayRef = useRef<SpectrumOverlay | null>(overlay);
+  const stemsRef = useRef<StemControl[]>(stems);
+  const hunterRef = useRef<HunterBand | null>(hunter);
+  const settingsRef = useRef({ mode, peakHold, frozen });
+  overlayRef.current = overlay;
+  stemsRef.current = stems;
+  hunterRef.current = hunter;
+  settingsRef.current = { mode, peakHold, frozen };
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
+
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const analyser = audioEngine.getAnalyser();
-    
-    const render = () => {
-      if (!analyser) {
-        // If no analyser yet, just request next frame
-        animationRef.current = requestAnimationFrame(render);
-        return;
-      }
+    // Spectrogram history lives on its own canvas so it can scroll
+    const history = document.createElement('canvas');
+    history.width = CANVAS_WIDTH;
+    history.height = CANVAS_HEIGHT;
+    const historyCtx = history.getContext('2d')!;
+    historyCtx.fillStyle = heatColour(0);
+    historyCtx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const columns = new Float32Array(CANVAS_WIDTH).fill(FLOOR_DB);
+    const rows = new Float32Array(CANVAS_HEIGHT).fill(FLOOR_DB);
+    const peaks = new Float32Array(CANVAS_WIDTH).fill(FLOOR_DB);
+    const peakAge = new Float32Array(CANVAS_WIDTH);
+    let bins: Float32Array | null = null;
+    let lastFrame = performance.now();
 
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      analyser.getByteFrequencyData(dataArray);
+    const render = (now: number = performance.now()) => {
+      const analyser = audioEngine.getAnalyser();
+      const { mode, peakHold, frozen } = settingsRef.current;
+      const dt = Math.min(0.1, (now - lastFrame) / 1000);
+      lastFrame = now;
 
       const width = canvas.width;
       const height = canvas.height;
-      
+
+      if (analyser && !frozen) {
+        if (!bins || bins.length !== analyser.frequencyBinCount) {
+          bins = new Float32Array(analyser.frequencyBinCount);
+        }
+        analyser.getFloatFrequencyData(bins);
+        const binHz = analyser.context.sampleRate / analyser.fftSize;
+        binsToColumns(bins, binHz, width, columns);
+
+        // Peak hold: keep for a moment, then fall
+        for (let x = 0; x < width; x++) {
+          if (columns[x] >= peaks[x]) {
+            peaks[x] = columns[x];
+            peakAge[x] = 0;
+          } else {
+            peakAge[x] += dt;
+            if (peakAge[x] > PEAK_HOLD_SECONDS) peaks[x] = Math.max(FLOOR_DB, peaks[x] - PEAK_DECAY_DB_PER_SECOND * dt);
+          }
+        }
+
+        // Scroll the spectrogram one column and paint the newest slice on the right
+        if (mode === 'spectrogram') {
+          binsToColumns(bins, binHz, height, rows);
+          historyCtx.drawImage(history, -1, 0);
+          for (let y = 0; y < height; y++) {
+            historyCtx.fillStyle = heatColour(dbToUnit(rows[y]));
+            historyCtx.fillRect(width - 1, height - 1 - y, 1, 1);
+          }
+        }
+      }
+
       ctx.clearRect(0, 0, width, height);
 
-      // Gradient
-      const gradient = ctx.createLinearGradient(0, height, 0, 0);
-      gradient.addColorStop(0, '#38bdf8'); // Light Blue
-      gradient.addColorStop(0.5, '#818cf8'); // Purple
-      gradient.addColorStop(1, '#c084fc'); // Pink/Purple
+      if (mode === 'spectrogram') {
+        ctx.drawImage(history, 0, 0);
+        drawBandRegions(ctx, stemsRef.current, width, height, false);
+      } else {
+        drawBandRegions(ctx, stemsRef.current, width, height, true);
 
-      ctx.fillStyle = gradient;
+        // dBFS grid
+        ctx.strokeStyle = 'rgba(148, 163, 184, 0.12)';
+        ctx.fillStyle = 'rgba(148, 163, 184, 0.5)';
+        ctx.font = '9px monospace';
+        ctx.lineWidth = 1;
+        DB_GRID.forEach(db => {
+          const y = height - dbToUnit(db) * height;
+          ctx.beginPath();
+          ctx.moveTo(0, y);
+          ctx.lineTo(width, y);
+          ctx.stroke();
+          ctx.fillText(`${db}`, 4, y - 2);
+        });
 
-      const barWidth = (width / bufferLength) * 2.5;
-      let barHeight;
-      let x = 0;
+        // Live spectrum as a filled curve
+        const gradient = ctx.createLinearGradient(0, height, 0, 0);
+        gradient.addColorStop(0, '#38bdf8'); // Light Blue
+        gradient.addColorStop(0.5, '#818cf8'); // Purple
+        gradient.addColorStop(1, '#c084fc'); // Pink/Purple
 
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = (dataArray[i] / 255) * height;
-        
-        // Rounded bars
         ctx.beginPath();
-        ctx.roundRect(x, height - barHeight, barWidth, barHeight, 4);
+        ctx.moveTo(0, height);
+        for (let x = 0; x < width; x++) {
+          ctx.lineTo(x, height - dbToUnit(columns[x]) * height);
+        }
+        ctx.lineTo(width, height);
+        ctx.closePath();
+        ctx.globalAlpha = 0.75;
+        ctx.fillStyle = gradient;
         ctx.fill();
+        ctx.globalAlpha = 1;
+
+        if (peakHold) {
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+          ctx.beginPath();
+          for (let x = 0; x < width; x++) {
+            const y = height - dbToUnit(peaks[x]) * height;
+            if (x === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+          }
+          ctx.stroke();
+        }
 
-        x += barWidth + 2;
+        if (overlayRef.current) {
+          drawOverlay(ctx, overlayRef.current, width, height);
+        }
+      }
+
+      if (hunterRef.current) {
+        drawHunter(ctx, hunterRef.current, width, height, mode === 'spectrum');
+      }
+
+      if (frozen) {
+        ctx.fillStyle = 'rgba(56, 189, 248, 0.9)';
+        ctx.font = 'bold 10px monospace';
+        ctx.fillText('FROZEN', width - 52, 14);
       }
 
       animationRef.current = requestAnimationFrame(render);
@@ -65,12 +354,107 @@ export const Visualizer: React.FC = () => {
     };
   }, []);
 
+  // --- Problem Hunter: press or drag on the display to move the band ---
+
+  const huntAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    // Spectrum: frequency runs left to right; spectrogram: bottom to top
+    const position = mode === 'spectrum'
+      ? (e.clientX - rect.left) / rect.width
+      : 1 - (e.clientY - rect.top) / rect.height;
+    onHunt?.({ frequency: Math.round(positionToFrequency(position)), mode: huntMode });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!hunting) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingRef.current = true;
+    huntAt(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (hunting && draggingRef.current) huntAt(e);
+  };
+
+  const handlePointerUp = () => {
+    draggingRef.current = false;
+  };
+
+  const toggleHunting = () => {
+    if (hunting) onHunt?.(null);
+    setHunting(!hunting);
+  };
+
+  const changeHuntMode = (next: HunterBand['mode']) => {
+    setHuntMode(next);
+    if (hunter) onHunt?.({ ...hunter, mode: next });
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex items-center gap-1 px-2 py-0.5 rounded border transition-colors ${active ? 'bg-brand-accent/10 border-brand-accent/40 text-brand-accent' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`;
+
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={800} 
-      height={200} 
-      className="w-full h-48 rounded-xl bg-slate-900/50 backdrop-blur-sm shadow-inner border border-slate-700/50"
-    />
+    <div className="space-y-2">
+      <div className="flex justify-end gap-1 text-[10px] font-mono uppercase">
+        {onHunt && (
+          <>
+            <button onClick={toggleHunting} title="Sweep a narrow band by pressing or dragging on the display" className={toggleClass(hunting)}>
+              <Crosshair size={10} /> Hunt
+            </button>
+            {hunting && (
+              <>
+                <button onClick={() => changeHuntMode('boost')} className={toggleClass(huntMode === 'boost')}>+{HUNTER_BOOST_DB}dB</button>
+                <button onClick={() => changeHuntMode('solo')} className={toggleClass(huntMode === 'solo')}>Solo</button>
+                <button
+                  onClick={onMarkHunt}
+                  disabled={!hunter || !onMarkHunt}
+                  title={onMarkHunt ? 'Add this frequency to the fixes list' : 'Run an analysis first to keep marks with it'}
+                  className={`${toggleClass(false)} disabled:opacity-40`}
+                >
+                  <Flag size={10} /> Mark
+                </button>
+              </>
+            )}
+            <span className="w-2" />
+          </>
+        )}
+        <button onClick={() => setMode('spectrum')} className={toggleClass(mode === 'spectrum')}>
+          <BarChart3 size={10} /> Spectrum
+        </button>
+        <button onClick={() => setMode('spectrogram')} className={toggleClass(mode === 'spectrogram')}>
+          <Waves size={10} /> Spectrogram
+        </button>
+        <button onClick={() => setPeakHold(!peakHold)} disabled={mode !== 'spectrum'} className={`${toggleClass(peakHold && mode === 'spectrum')} disabled:opacity-40`}>
+          <ArrowUpToLine size={10} /> Peak
+        </button>
+        <button onClick={() => setFrozen(!frozen)} className={toggleClass(frozen)}>
+          <Snowflake size={10} /> Freeze
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full h-48 rounded-xl bg-slate-900/50 backdrop-blur-sm shadow-inner border border-slate-700/50 ${hunting ? 'cursor-crosshair touch-none' : ''}`}
+      />
+      {/* Axis labels at their true log-frequency positions */}
+      <div className="relative h-3 text-[10px] text-slate-500 font-mono uppercase">
+        {mode === 'spectrum' ? AXIS_HZ.map((hz, i) => (
+          <span
+            key={hz}
+            className={`absolute ${i === 0 ? '' : i === AXIS_HZ.length - 1 ? '-translate-x-full' : '-translate-x-1/2'}`}
+            style={{ left: `${frequencyToPosition(hz) * 100}%` }}
+          >
+            {formatHz(hz)}
+          </span>
+        )) : (
+          <span className="absolute right-0">Time →  ·  {formatHz(SPECTRUM_MIN_HZ)} (bottom) – {formatHz(SPECTRUM_MAX_HZ)} (top)</span>
+        )}
+      </div>
+    </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { LoopRegion, WaveformPeaks } from '../types';
+import { binPeaks } from '../services/waveform';
+
+interface Props {
+  peaks: WaveformPeaks;
+  currentTime: number;
+  loop: LoopRegion | null;
+  loopEnabled: boolean;
+  onSeek: (time: number) => void;
+  onLoopChange: (loop: LoopRegion, dragging: boolean) => void;  // dragging: more changes follow until pointer up
+}
+
+type DragMode = 'pending' | 'create' | 'resize-start' | 'resize-end';
+
+const CANVAS_WIDTH = 1200;
+const CANVAS_HEIGHT = 96;
+const EDGE_GRAB_PX = 6;
+const DRAG_THRESHOLD_PX = 4;
+const MIN_VIEW_SECONDS = 1;
+const MAX_ZOOM_STEPS = 8;
+
+export const WaveformOverview: React.FC<Props> = ({ peaks, currentTime, loop, loopEnabled, onSeek, onLoopChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ mode: DragMode; anchorTime: number; anchorX: number; last: LoopRegion | null } | null>(null);
+  const [view, setView] = useState({ start: 0, span: peaks.duration });
+
+  // Reset the view whenever a new file comes in
+  useEffect(() => {
+    setView({ start: 0, span: peaks.duration });
+  }, [peaks]);
+
+  const clampView = (start: number, span: number) => {
+    const s = Math.max(MIN_VIEW_SECONDS, Math.min(peaks.duration, span));
+    return { start: Math.max(0, Math.min(peaks.duration - s, start)), span: s };
+  };
+
+  // Page the view along with the playhead
+  useEffect(() => {
+    if (currentTime < view.start || currentTime > view.start + view.span) {
+      setView(v => clampView(currentTime - v.span * 0.1, v.span));
+    }
+  }, [currentTime]);
+
+  const timeToX = (t: number) => ((t - view.start) / view.span) * CANVAS_WIDTH;
+
+  // --- Drawing ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const w = CANVAS_WIDTH;
+    const h = CANVAS_HEIGHT;
+    const mid = h / 2;
+    ctx.clearRect(0, 0, w, h);
+
+    // Loop region
+    if (loop) {
+      const x0 = timeToX(loop.start);
+      const x1 = timeToX(loop.end);
+      ctx.fillStyle = loopEnabled ? 'rgba(129, 140, 248, 0.18)' : 'rgba(148, 163, 184, 0.08)';
+      ctx.fillRect(x0, 0, x1 - x0, h);
+      ctx.fillStyle = loopEnabled ? '#818cf8' : '#475569';
+      ctx.fillRect(x0 - 1, 0, 2, h);
+      ctx.fillRect(x1 - 1, 0, 2, h);
+    }
+
+    // Waveform (played portion highlighted)
+    const { min, max } = binPeaks(peaks, view.start, view.start + view.span, w);
+    const playheadX = timeToX(currentTime);
+    for (let x = 0; x < w; x++) {
+      ctx.fillStyle = x < playheadX ? '#38bdf8' : '#475569';
+      const top = mid - max[x] * mid;
+      const bottom = mid - min[x] * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    // Time ticks
+    const tickStep = [1, 2, 5, 10, 15, 30, 60, 120].find(s => view.span / s <= 12) ?? 300;
+    ctx.fillStyle = 'rgba(148, 163, 184, 0.7)';
+    ctx.font = '10px monospace';
+    for (let t = Math.ceil(view.start / tickStep) * tickStep; t <= view.start + view.span; t += tickStep) {
+      const x = timeToX(t);
+      ctx.fillRect(x, 0, 1, 4);
+      const m = Math.floor(t / 60);
+      const sec = Math.floor(t % 60);
+      ctx.fillText(`${m}:${sec < 10 ? '0' : ''}${sec}`, x + 3, 11);
+    }
+
+    // Playhead
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(playheadX - 1, 0, 2, h);
+  }, [peaks, currentTime, loop, loopEnabled, view]);
+
+  // --- Interaction ---
+
+  const eventToCanvas = (e: React.PointerEvent | React.WheelEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / rect.width;
+    return {
+      ratio,
+      cssX: e.clientX - rect.left,
+      time: Math.max(0, Math.min(peaks.duration, view.start + ratio * view.span)),
+      pxPerSecond: rect.width / view.span,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { cssX, time, pxPerSecond } = eventToCanvas(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    let mode: DragMode = 'pending';
+    if (loop) {
+      if (Math.abs(time - loop.start) * pxPerSecond <= EDGE_GRAB_PX) mode = 'resize-start';
+      else if (Math.abs(time - loop.end) * pxPerSecond <= EDGE_GRAB_PX) mode = 'resize-end';
+    }
+    dragRef.current = { mode, anchorTime: time, anchorX: cssX, last: null };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { cssX, time } = eventToCanvas(e);
+
+    if (drag.mode === 'pending' && Math.abs(cssX - drag.anchorX) > DRAG_THRESHOLD_PX) {
+      drag.mode = 'create';
+    }
+
+    if (drag.mode === 'create') {
+      drag.last = { start: Math.min(drag.anchorTime, time), end: Math.max(drag.anchorTime, time) };
+    } else if (drag.mode === 'resize-start' && loop) {
+      drag.last = { start: Math.min(time, loop.end), end: Math.max(time, loop.end) };
+    } else if (drag.mode === 'resize-end' && loop) {
+      drag.last = { start: Math.min(loop.start, time), end: Math.max(loop.start, time) };
+    } else {
+      return;
+    }
+    onLoopChange(drag.last, true);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode === 'pending') {
+      onSeek(eventToCanvas(e).time);
+    } else if (drag?.last) {
+      onLoopChange(drag.last, false);
+    }
+  };
+
+  const zoomAround = (time: number, factor: number) => {
+    const minSpan = Math.max(MIN_VIEW_SECONDS, peaks.duration / Math.pow(2, MAX_ZOOM_STEPS));
+    const span = Math.max(minSpan, Math.min(peaks.duration, view.span * factor));
+    const ratio = (time - view.start) / view.span;
+    setView(clampView(time - ratio * span, span));
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    const { time } = eventToCanvas(e);
+    if (e.ctrlKey || e.metaKey) {
+      zoomAround(time, e.deltaY > 0 ? 1.25 : 0.8);
+    } else if (view.span < peaks.duration) {
+      const delta = (e.deltaX !== 0 ? e.deltaX : e.deltaY) / 500;
+      setView(clampView(view.start + delta * view.span, view.span));
+    }
+  };
+
+  const viewCentre = view.start + view.span / 2;
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onWheel={handleWheel}
+        className="w-full h-24 rounded-lg bg-slate-900/70 border border-slate-700/50 cursor-crosshair touch-none"
+      />
+      <div className="flex items-center justify-between text-[10px] font-mono text-slate-500">
+        <span>Click: seek · Drag: set loop · Drag edges: resize · Ctrl+Wheel: zoom</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomAround(viewCentre, 0.5)} className="p-1 rounded hover:bg-slate-700 hover:text-white" title="Zoom in">
+            <ZoomIn size={12} />
+          </button>
+          <button onClick={() => zoomAround(viewCentre, 2)} className="p-1 rounded hover:bg-slate-700 hover:text-white" title="Zoom out">
+            <ZoomOut size={12} />
+          </button>
+          <button onClick={() => setView({ start: 0, span: peaks.duration })} className="p-1 rounded hover:bg-slate-700 hover:text-white" title="Fit">
+            <Maximize2 size={12} />
+          </button>
+          <span className="ml-1">{Math.round(peaks.duration / view.span * 10) / 10}x</span>
+        </div>
+      </div>
+    </div>
+  );
+};
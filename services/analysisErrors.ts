@@ -0,0 +1,33 @@
+/**
+ * RøcAudio Analysis Errors
+ * A failed diagnosis is reported as one of a few known states instead of a fake verdict.
+ */
+
+import { AnalysisErrorKind } from '../types';
+
+export class AnalysisError extends Error {
+  kind: AnalysisErrorKind;
+
+  constructor(kind: AnalysisErrorKind, message: string) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+  }
+}
+
+/** Wraps anything thrown during analysis; browser network failures surface as TypeError. */
+export const toAnalysisError = (err: unknown): AnalysisError => {
+  if (err instanceof AnalysisError) return err;
+  if (err instanceof DOMException && err.name === 'AbortError') {
+    return new AnalysisError('cancelled', 'The analysis was cancelled.');
+  }
+  if (!navigator.onLine || err instanceof TypeError) {
+    return new AnalysisError('network', 'Could not reach the analysis service.');
+  }
+  return new AnalysisError('unknown', err instanceof Error ? err.message : String(err));
+};
+
+/** Stops a provider between steps once the caller has given up on the result. */
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AnalysisError('cancelled', 'The analysis was cancelled.');
+};
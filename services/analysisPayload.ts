@@ -0,0 +1,157 @@
+/**
+ * RøcAudio Analysis Payload
+ * Shrinks the decoded mix to a compact upload: mono, 16 kHz, 16-bit WAV.
+ * Long tracks are cut down to representative excerpts (intro, loudest section, drop).
+ */
+
+import { AnalysisExcerpt, AnalysisPayload, LoudnessMetrics } from '../types';
+import { renderMono } from './fft';
+import { encodeWav } from './wavEncoder';
+import { lufsToPower, measureLoudness } from './loudness';
+
+// The model hears audio at 16 kHz mono anyway, so nothing above that is worth sending
+const PAYLOAD_RATE = 16000;
+const MAX_FULL_SECONDS = 150;    // Longer tracks are sent as excerpts
+const INTRO_SECONDS = 20;
+const EXCERPT_SECONDS = 30;
+const GAP_SECONDS = 0.5;         // Silence between excerpts so they don't run together
+const FADE_SECONDS = 0.02;
+const DROP_MIN_RISE_LU = 6;      // Short-term loudness jump that counts as a drop
+const DROP_LOOKBACK_SECONDS = 4;
+const DROP_PREROLL_SECONDS = 5;  // Start the drop excerpt a little before the hit
+
+type Candidate = Omit<AnalysisExcerpt, 'offset'>;
+
+const overlaps = (a: Candidate, b: Candidate) => a.start < b.end && b.start < a.end;
+
+/** Start time of the EXCERPT_SECONDS window with the most short-term energy, from `after` on. */
+const findLoudest = (loudness: LoudnessMetrics, after: number, duration: number): number | null => {
+  const hop = loudness.hopSeconds;
+  const powers = loudness.shortTerm.map(lufsToPower);
+  // Short-term value i covers [i*hop, i*hop + 3s], so the window needs fewer values than hops
+  const span = Math.max(1, Math.round((EXCERPT_SECONDS - 3) / hop));
+  const first = Math.ceil(after / hop);
+  const last = Math.min(powers.length - span, Math.floor((duration - EXCERPT_SECONDS) / hop));
+  if (last < first) return null;
+
+  let acc = 0;
+  for (let i = first; i < first + span; i++) acc += powers[i];
+  let best = acc;
+  let bestIndex = first;
+  for (let i = first + 1; i <= last; i++) {
+    acc += powers[i + span - 1] - powers[i - 1];
+    if (acc > best) {
+      best = acc;
+      bestIndex = i;
+    }
+  }
+  return bestIndex * hop;
+};
+
+/** Time of the biggest short-term loudness rise, if any rise is big enough to be a drop. */
+const findDrop = (loudness: LoudnessMetrics): number | null => {
+  const hop = loudness.hopSeconds;
+  const lookback = Math.round(DROP_LOOKBACK_SECONDS / hop);
+  const st = loudness.shortTerm;
+
+  let bestRise = DROP_MIN_RISE_LU;
+  let bestIndex = -1;
+  for (let i = lookback; i < st.length; i++) {
+    if (!Number.isFinite(st[i]) || !Number.isFinite(st[i - lookback])) continue;
+    const rise = st[i] - st[i - lookback];
+    if (rise > bestRise) {
+      bestRise = rise;
+      bestIndex = i;
+    }
+  }
+  return bestIndex >= 0 ? bestIndex * hop : null;
+};
+
+const chooseExcerpts = (loudness: LoudnessMetrics, duration: number): Candidate[] => {
+  const chosen: Candidate[] = [{ label: 'intro', start: 0, end: INTRO_SECONDS }];
+
+  const loudest = findLoudest(loudness, INTRO_SECONDS, duration);
+  if (loudest !== null) {
+    chosen.push({ label: 'loudest', start: loudest, end: loudest + EXCERPT_SECONDS });
+  }
+
+  const drop = findDrop(loudness);
+  if (drop !== null) {
+    const start = Math.max(0, Math.min(duration - EXCERPT_SECONDS, drop - DROP_PREROLL_SECONDS));
+    const candidate: Candidate = { label: 'drop', start, end: start + EXCERPT_SECONDS };
+    if (!chosen.some(c => overlaps(c, candidate))) chosen.push(candidate);
+  }
+
+  return chosen.sort((a, b) => a.start - b.start);
+};
+
+const applyFades = (samples: Float32Array, sampleRate: number) => {
+  const fade = Math.min(Math.floor(samples.length / 2), Math.round(FADE_SECONDS * sampleRate));
+  for (let i = 0; i < fade; i++) {
+    const g = i / fade;
+    samples[i] *= g;
+    samples[samples.length - 1 - i] *= g;
+  }
+};
+
+export const prepareAnalysisPayload = async (buffer: AudioBuffer, loudness: LoudnessMetrics | null = null): Promise<AnalysisPayload> => {
+  const duration = buffer.duration;
+  const mono = await renderMono(buffer, PAYLOAD_RATE);
+
+  const candidates: Candidate[] = duration > MAX_FULL_SECONDS
+    ? chooseExcerpts(loudness ?? measureLoudness(buffer), duration)
+    : [{ label: 'full', start: 0, end: duration }];
+
+  const gap = Math.round(GAP_SECONDS * PAYLOAD_RATE);
+  const slices = candidates.map(c => mono.slice(Math.floor(c.start * PAYLOAD_RATE), Math.floor(c.end * PAYLOAD_RATE)));
+  const totalLength = slices.reduce((sum, s) => sum + s.length, 0) + gap * (slices.length - 1);
+
+  const out = new AudioBuffer({ length: Math.max(1, totalLength), numberOfChannels: 1, sampleRate: PAYLOAD_RATE });
+  const excerpts: AnalysisExcerpt[] = [];
+  let position = 0;
+  slices.forEach((slice, i) => {
+    if (candidates[i].label !== 'full') applyFades(slice, PAYLOAD_RATE);
+    out.copyToChannel(slice, 0, position);
+    excerpts.push({ ...candidates[i], end: candidates[i].start + slice.length / PAYLOAD_RATE, offset: position / PAYLOAD_RATE });
+    position += slice.length + gap;
+  });
+
+  return {
+    blob: encodeWav(out, 16),
+    mimeType: 'audio/wav',
+    sampleRate: PAYLOAD_RATE,
+    channels: 1,
+    excerpts,
+    sourceDuration: duration,
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
+
+const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+};
+
+/** Plain-language map of the payload, for the model prompt. */
+export const describeExcerpts = (payload: AnalysisPayload): string => {
+  if (payload.excerpts.length === 1 && payload.excerpts[0].label === 'full') {
+    return `The audio is the full track (${formatClock(payload.sourceDuration)}), downmixed to mono at ${payload.sampleRate / 1000} kHz.`;
+  }
+  const parts = payload.excerpts.map(e =>
+    `${formatClock(e.offset)} in this file = ${e.label} (${formatClock(e.start)}-${formatClock(e.end)} of the original)`
+  );
+  return `The audio contains ${payload.excerpts.length} excerpts of a ${formatClock(payload.sourceDuration)} track, `
+    + `downmixed to mono at ${payload.sampleRate / 1000} kHz and separated by short silences: ${parts.join('; ')}.`;
+};
+
+/** Maps a time in the payload audio back to the original track, or null if it falls in a gap. */
+export const payloadTimeToSource = (payload: AnalysisPayload, time: number): number | null => {
+  const excerpt = payload.excerpts.find(e => time >= e.offset && time <= e.offset + (e.end - e.start));
+  return excerpt ? excerpt.start + (time - excerpt.offset) : null;
+};
@@ -0,0 +1,26 @@
+/**
+ * RøcAudio Analysis Providers
+ * Registry of the engines that can fill an AudioAnalysis.
+ */
+
+import { AnalysisProvider, AnalysisProviderId } from '../types';
+import { geminiProvider } from './geminiService';
+import { offlineProvider } from './offlineAnalysis';
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiProvider, offlineProvider];
+
+export const getAnalysisProvider = (id: AnalysisProviderId): AnalysisProvider => {
+  return ANALYSIS_PROVIDERS.find(p => p.id === id) ?? offlineProvider;
+};
+
+/** Cloud when it can be reached, otherwise the local rules. */
+export const defaultAnalysisProvider = (): AnalysisProviderId => {
+  return geminiProvider.isAvailable() ? geminiProvider.id : offlineProvider.id;
+};
+
+/** The provider to ask follow-up questions: the one that wrote the analysis if it can chat, else any that can. */
+export const getChatProvider = (id: AnalysisProviderId): AnalysisProvider | null => {
+  const preferred = getAnalysisProvider(id);
+  if (preferred.chat) return preferred;
+  return ANALYSIS_PROVIDERS.find(p => p.chat && p.isAvailable()) ?? null;
+};
@@ -0,0 +1,261 @@
+/**
+ * RøcAudio Analysis Validation
+ * Runtime check of untrusted JSON (model output) against the AudioAnalysis type.
+ */
+
+import { AudioAnalysis, EqMove, FrequencyBandAnalysis, MixIssue, PartialAnalysis } from '../types';
+import { AnalysisError } from './analysisErrors';
+
+const STATUSES: FrequencyBandAnalysis['status'][] = ['Good', 'Cut', 'Boost'];
+const SEVERITIES: MixIssue['severity'][] = ['critical', 'warning', 'info'];
+const EQ_TYPES: EqMove['type'][] = ['peaking', 'lowshelf', 'highshelf', 'highpass'];
+
+// The model has answered with each of these for the middle band
+const MID_ALIASES = ['mid', 'mids', 'low-mid', 'high-mid', 'midrange'];
+
+type Json = Record<string, unknown>;
+
+const fail = (path: string, expected: string): never => {
+  throw new AnalysisError('bad-payload', `Invalid analysis: "${path}" should be ${expected}.`);
+};
+
+const asObject = (value: unknown, path: string): Json => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(path, 'an object');
+  return value as Json;
+};
+
+const asString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') fail(path, 'a string');
+  return value as string;
+};
+
+const asOneOf = <T extends string>(value: unknown, options: T[], path: string): T => {
+  const str = asString(value, path);
+  const match = options.find(o => o.toLowerCase() === str.trim().toLowerCase());
+  if (!match) fail(path, `one of ${options.join(', ')}`);
+  return match as T;
+};
+
+const asBand = (value: unknown, expected: FrequencyBandAnalysis['band'], path: string): FrequencyBandAnalysis => {
+  const obj = asObject(value, path);
+  // The key already names the band; only a contradicting label is an error
+  const band = obj.band === undefined || obj.band === null ? expected.toLowerCase() : asString(obj.band, `${path}.band`).trim().toLowerCase();
+  const bandMatches = expected === 'Mid' ? MID_ALIASES.includes(band) : band === expected.toLowerCase();
+  if (!bandMatches) fail(`${path}.band`, `"${expected}"`);
+
+  return {
+    band: expected,
+    status: asOneOf(obj.status, STATUSES, `${path}.status`),
+    description: asString(obj.description, `${path}.description`),
+  };
+};
+
+const asOptionalSeconds = (value: unknown, path: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) fail(path, 'a time in seconds');
+  return value as number;
+};
+
+const asNumber = (value: unknown, path: string, min: number, max: number): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) fail(path, `a number from ${min} to ${max}`);
+  return value as number;
+};
+
+/** The optional structured EQ move; a malformed one is dropped rather than failing the whole report. */
+const asOptionalEq = (value: unknown, path: string): EqMove | undefined => {
+  if (value === undefined || value === null) return undefined;
+  try {
+    const obj = asObject(value, path);
+    return {
+      type: asOneOf(obj.type, EQ_TYPES, `${path}.type`),
+      frequency: asNumber(obj.frequency, `${path}.frequency`, 20, 20000),
+      gain: obj.type === 'highpass' ? 0 : asNumber(obj.gain, `${path}.gain`, -24, 24),
+      q: asNumber(obj.q ?? Math.SQRT1_2, `${path}.q`, 0.1, 20),
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+const asIssue = (value: unknown, path: string): MixIssue => {
+  const obj = asObject(value, path);
+  const issue: MixIssue = {
+    severity: asOneOf(obj.severity, SEVERITIES, `${path}.severity`),
+    frequency: asString(obj.frequency, `${path}.frequency`),
+    issue: asString(obj.issue, `${path}.issue`),
+    fix: asString(obj.fix, `${path}.fix`),
+  };
+
+  const start = asOptionalSeconds(obj.start, `${path}.start`);
+  const end = asOptionalSeconds(obj.end, `${path}.end`);
+  if (start !== undefined) {
+    issue.start = end !== undefined ? Math.min(start, end) : start;
+    if (end !== undefined) issue.end = Math.max(start, end);
+  }
+
+  const eq = asOptionalEq(obj.eq, `${path}.eq`);
+  if (eq) issue.eq = eq;
+  return issue;
+};
+
+const asArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) fail(path, 'an array');
+  return value as unknown[];
+};
+
+export const validateAnalysis = (raw: unknown): AudioAnalysis => {
+  const obj = asObject(raw, 'analysis');
+
+  const score = obj.masteringScore;
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+    fail('masteringScore', 'a number from 0 to 100');
+  }
+
+  const bpm = obj.bpm;
+  if (typeof bpm !== 'string' && typeof bpm !== 'number') fail('bpm', 'a string or number');
+
+  const balance = asObject(obj.mixBalance, 'mixBalance');
+
+  return {
+    genre: asString(obj.genre, 'genre'),
+    bpm: bpm as string | number,
+    key: asString(obj.key, 'key'),
+    masteringScore: Math.round(score as number),
+    suggestedEqPreset: asString(obj.suggestedEqPreset, 'suggestedEqPreset'),
+    mixBalance: {
+      low: asBand(balance.low, 'Low', 'mixBalance.low'),
+      mid: asBand(balance.mid, 'Mid', 'mixBalance.mid'),
+      high: asBand(balance.high, 'High', 'mixBalance.high'),
+    },
+    stereoAnalysis: asString(obj.stereoAnalysis, 'stereoAnalysis'),
+    dynamicAnalysis: asString(obj.dynamicAnalysis, 'dynamicAnalysis'),
+    referenceTracks: asArray(obj.referenceTracks, 'referenceTracks').map((t, i) => asString(t, `referenceTracks[${i}]`)),
+    actionableFixes: asArray(obj.actionableFixes, 'actionableFixes').map((f, i) => asIssue(f, `actionableFixes[${i}]`)),
+    summary: asString(obj.summary, 'summary'),
+  };
+};
+
+/** JSON.parse + validateAnalysis, with parse errors reported as a bad payload. */
+export const parseAnalysis = (text: string): AudioAnalysis => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new AnalysisError('bad-payload', 'The analysis response was not valid JSON.');
+  }
+  return validateAnalysis(raw);
+};
+
+/** Walks JSON text, reporting the brackets still open at the end and whether a string is open. */
+const scanJson = (text: string, onClose?: (depth: number) => void) => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      closers.push('}');
+    } else if (ch === '[') {
+      closers.push(']');
+    } else if (ch === '}' || ch === ']') {
+      closers.pop();
+      onClose?.(closers.length);
+    }
+  }
+  return { closers, inString, escaped };
+};
+
+/** Closes any open string, array and object so a truncated JSON stream parses. */
+const closeJson = (text: string): string => {
+  const { closers, inString, escaped } = scanJson(text);
+  // A trailing number may still be growing ("8" of "80"), so it is dropped along with its key
+  let closed = inString
+    ? `${escaped ? text.slice(0, -1) : text}"`
+    : text.replace(/:\s*-?[\d.eE+-]*$/, ':').replace(/[\s,:]+$/, '');
+  for (let i = closers.length - 1; i >= 0; i--) closed += closers[i];
+  return closed;
+};
+
+const MAX_PARTIAL_ATTEMPTS = 8;
+
+/** Best-effort parse of a JSON prefix: closes it, and backs off to the previous comma if a key is dangling. */
+const parseJsonPrefix = (text: string): unknown => {
+  let prefix = text;
+  for (let attempt = 0; attempt < MAX_PARTIAL_ATTEMPTS && prefix; attempt++) {
+    try {
+      return JSON.parse(closeJson(prefix));
+    } catch {
+      const comma = prefix.lastIndexOf(',');
+      if (comma < 0) return null;
+      prefix = prefix.slice(0, comma);
+    }
+  }
+  return null;
+};
+
+/** Whether the top-level array under `key` has its closing bracket in the text yet. */
+const topLevelArrayClosed = (text: string, key: string): boolean => {
+  const start = text.indexOf(`"${key}"`);
+  if (start < 0) return false;
+  // Scanning from the key, the array is the first bracket opened, so its "]" is the first return to depth 0
+  let closed = false;
+  scanJson(text.slice(start), depth => {
+    if (depth === 0) closed = true;
+  });
+  return closed;
+};
+
+/**
+ * Whatever can already be shown from a streamed analysis. Strings may still be growing;
+ * a fix is only included once the next one has started or the list has closed.
+ */
+export const parsePartialAnalysis = (text: string): PartialAnalysis => {
+  const raw = parseJsonPrefix(text);
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+  const obj = raw as Json;
+  const partial: PartialAnalysis = {};
+
+  if (typeof obj.genre === 'string') partial.genre = obj.genre;
+  if (typeof obj.key === 'string') partial.key = obj.key;
+  if (typeof obj.bpm === 'string' || typeof obj.bpm === 'number') partial.bpm = obj.bpm;
+  if (typeof obj.summary === 'string') partial.summary = obj.summary;
+  if (typeof obj.masteringScore === 'number' && obj.masteringScore >= 0 && obj.masteringScore <= 100) {
+    partial.masteringScore = Math.round(obj.masteringScore);
+  }
+
+  if (Array.isArray(obj.actionableFixes)) {
+    const items = topLevelArrayClosed(text, 'actionableFixes') ? obj.actionableFixes : obj.actionableFixes.slice(0, -1);
+    partial.actionableFixes = items.flatMap((item, i) => {
+      try {
+        return [asIssue(item, `actionableFixes[${i}]`)];
+      } catch {
+        return [];
+      }
+    });
+  }
+  return partial;
+};
+
+/** Validates a chat reply; fix references are 1-based in the model's answer and 0-based here. */
+export const parseChatReply = (text: string, fixCount: number): { text: string; fixRefs: number[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new AnalysisError('bad-payload', 'The reply was not valid JSON.');
+  }
+  const obj = asObject(raw, 'chat');
+  const refs = obj.fixRefs === undefined ? [] : asArray(obj.fixRefs, 'chat.fixRefs');
+  const fixRefs = refs
+    .filter((n): n is number => Number.isInteger(n) && (n as number) >= 1 && (n as number) <= fixCount)
+    .map(n => n - 1);
+  return {
+    text: asString(obj.reply, 'chat.reply'),
+    fixRefs: Array.from(new Set(fixRefs)),
+  };
+};
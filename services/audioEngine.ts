@@ -1,48 +1,304 @@
 /**
  * RøcAudio Professional Playback Engine
  * Focus: High Fidelity Playback, Spectrum Analysis & Frequency Splitting
+ *
+ * The node graph is built once per file and survives pause/seek. Only the
+ * AudioBufferSourceNode (which is one-shot by design) is recreated on play.
+ *
+ * source → trim → [audition EQ] → crossover → master → [hunter] → EQ → compressor → limiter → platform gain → [platform limiter] → out
+ *
+ * The platform gain (streaming-normalization preview) sits on its own stage after the mastering
+ * chain rather than on the master fader, so turning it on doesn't change how hard the chain works.
+ * It is computed from the unprocessed mix's loudness, so the app pauses it while any chain slot is on.
  */
 
+import { AudioState, EqMove, HunterBand, LimiterMode, LoopRegion, MasteringChainSettings, MasteringMeters, MasteringSlotId, PlaybackNormalization, PlaybackSource } from '../types';
+import { createStemBand, DEFAULT_CROSSOVER } from './crossover';
+import { DEFAULT_MASTERING_CHAIN } from './masteringChain';
+import { createLimiterNode } from './limiterWorklet';
+
+export interface AudioEngineEventMap {
+  play: { currentTime: number };
+  pause: { currentTime: number };
+  ended: { duration: number };
+  timeupdate: { currentTime: number; duration: number };
+  loaded: { buffer: AudioBuffer; duration: number };
+  sourcechange: { source: PlaybackSource; duration: number };
+  loopchange: { loop: LoopRegion | null };
+  masteringchange: { active: boolean };
+}
+
+export type AudioEngineEvent = keyof AudioEngineEventMap;
+type Listener<K extends AudioEngineEvent> = (payload: AudioEngineEventMap[K]) => void;
+
+const STEM_RAMP_SECONDS = 0.1;
+const PARAM_RAMP_SECONDS = 0.02;
+const MIN_LOOP_SECONDS = 0.05;
+const SILENCE_RMS = 1e-5;
+const HUNTER_GLIDE_SECONDS = 0.01; // Smooths the sweep without lagging the pointer
+const PLATFORM_LIMITER_CEILING_DB = -1; // Spotify's limiter: -1 dB, 100ms release
+const PLATFORM_LIMITER_RELEASE_MS = 100;
+
+export const HUNTER_Q = 6;
+export const HUNTER_BOOST_DB = 12;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+interface InsertSlot {
+  input: GainNode;
+  output: GainNode;
+  nodes: AudioNode[]; // Processing in series; skipped when bypassed
+  routed: boolean | null;  // Whether input currently feeds nodes (null = not wired yet)
+}
+
 class AudioEngine {
   private context: AudioContext | null = null;
   private buffer: AudioBuffer | null = null;
-  
+
+  // A/B Reference
+  private referenceBuffer: AudioBuffer | null = null;
+  private activeSource: PlaybackSource = 'mix';
+  private referenceGainDb: number = 0;
+
   // Nodes
   private sourceNode: AudioBufferSourceNode | null = null;
+  private trimGain: GainNode | null = null;
+  private inputBus: GainNode | null = null;
   private masterGain: GainNode | null = null;
+  private chainOutput: GainNode | null = null;
   private analyser: AnalyserNode | null = null;
+  private leftAnalyser: AnalyserNode | null = null;
+  private rightAnalyser: AnalyserNode | null = null;
+
+  // Crossover Network (one entry per band, lowest first)
+  private bandInputs: AudioNode[] = [];
+  private bandGains: GainNode[] = [];
+  private crossover: number[] = [...DEFAULT_CROSSOVER];
+
+  // Fix Audition (one filter between the trim and the crossover, mix only)
+  private auditionEq: EqMove | null = null;
+  private auditionFilter: BiquadFilterNode | null = null;
 
-  // Stem / Crossover Nodes
-  private lowFilter: BiquadFilterNode | null = null;
-  private midLowFilter: BiquadFilterNode | null = null;
-  private midHighFilter: BiquadFilterNode | null = null;
-  private highFilter: BiquadFilterNode | null = null;
+  // Problem Hunter (narrow band swept by hand, between the master fader and the mastering chain)
+  private hunter: HunterBand | null = null;
+  private hunterSlot: InsertSlot | null = null;
+  private hunterFilter: BiquadFilterNode | null = null;
+
+  // Streaming Normalization Preview (own gain stage and limiter after the mastering chain)
+  private normalization: PlaybackNormalization | null = null;
+  private platformSlot: InsertSlot | null = null;
+
+  // Mastering Chain (insert slots after the master fader, mix only)
+  private mastering: MasteringChainSettings = structuredClone(DEFAULT_MASTERING_CHAIN);
+  private slots: Record<MasteringSlotId, InsertSlot> | null = null;
+  private compressor: DynamicsCompressorNode | null = null;
+  private makeupGain: GainNode | null = null;
+  private limiterDrive: GainNode | null = null;
+  private limiter: AudioWorkletNode | DynamicsCompressorNode | null = null;
+  private limiterReduction: number = 0;
+  private limiterMode: LimiterMode = 'loading';
+  private eqInputMeter: AnalyserNode | null = null;
+  private eqOutputMeter: AnalyserNode | null = null;
+  private meterData: Float32Array | null = null;
+
+  // Stem Settings (persist across play/pause/seek)
+  private stemVolumes: number[] = [];
+  private stemMutes: boolean[] = [];
 
-  private lowGain: GainNode | null = null;
-  private midGain: GainNode | null = null;
-  private highGain: GainNode | null = null;
-  
   // Playback state
   private startTime: number = 0;
   private pausedAt: number = 0;
   private isPlaying: boolean = false;
-  
+  private frameId: number | null = null;
+  private loop: LoopRegion | null = null;
+
+  private listeners: { [K in AudioEngineEvent]: Set<Listener<K>> } = {
+    play: new Set(),
+    pause: new Set(),
+    ended: new Set(),
+    timeupdate: new Set(),
+    loaded: new Set(),
+    sourcechange: new Set(),
+    loopchange: new Set(),
+    masteringchange: new Set(),
+  };
+
   constructor() {
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     if (AudioContextClass) {
       this.context = new AudioContextClass();
+      this.buildMasterChain();
     }
+    this.resetStemSettings();
   }
 
   getContext(): AudioContext | null {
     return this.context;
   }
 
-  async loadFile(file: File): Promise<AudioBuffer> {
+  // --- Events ---
+
+  on<K extends AudioEngineEvent>(event: K, listener: Listener<K>): () => void {
+    const set: Set<Listener<K>> = this.listeners[event];
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  private emit<K extends AudioEngineEvent>(event: K, payload: AudioEngineEventMap[K]) {
+    this.listeners[event].forEach(listener => listener(payload));
+  }
+
+  private emitTimeUpdate() {
+    this.emit('timeupdate', { currentTime: this.getCurrentTime(), duration: this.getDuration() });
+  }
+
+  private startClock() {
+    const tick = () => {
+      if (!this.isPlaying) return;
+      this.emitTimeUpdate();
+      this.frameId = requestAnimationFrame(tick);
+    };
+    this.frameId = requestAnimationFrame(tick);
+  }
+
+  private stopClock() {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  // --- Graph Construction ---
+
+  private buildMasterChain() {
+    if (!this.context) return;
+
+    this.trimGain = this.context.createGain();
+    this.inputBus = this.context.createGain();
+    this.trimGain.connect(this.inputBus);
+    this.masterGain = this.context.createGain();
+    this.chainOutput = this.context.createGain();
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 8192; // ~5Hz bins, enough resolution for a log-frequency display
+    this.analyser.smoothingTimeConstant = 0.8;
+
+    this.buildInsertSlots();
+
+    // Master Output (meters see what is heard, i.e. after the mastering chain)
+    this.chainOutput.connect(this.analyser);
+    this.analyser.connect(this.context.destination);
+
+    // Stereo Metering Tap (mono sources are upmixed to both sides)
+    const splitter = this.context.createChannelSplitter(2);
+    splitter.channelCount = 2;
+    splitter.channelCountMode = 'explicit';
+    splitter.channelInterpretation = 'speakers';
+    this.leftAnalyser = this.context.createAnalyser();
+    this.rightAnalyser = this.context.createAnalyser();
+    this.leftAnalyser.fftSize = 2048;
+    this.rightAnalyser.fftSize = 2048;
+    this.chainOutput.connect(splitter);
+    splitter.connect(this.leftAnalyser, 0);
+    splitter.connect(this.rightAnalyser, 1);
+  }
+
+  private buildInsertSlots() {
+    if (!this.context || !this.masterGain || !this.chainOutput) return;
+    const context = this.context;
+    const slot = (nodes: AudioNode[]): InsertSlot => ({ input: context.createGain(), output: context.createGain(), nodes, routed: null });
+
+    this.compressor = context.createDynamicsCompressor();
+    this.makeupGain = context.createGain();
+    this.limiterDrive = context.createGain();
+    // Stand-in until the worklet loads; stays if worklets are unavailable
+    this.limiter = context.createDynamicsCompressor();
+
+    // The problem hunter sits ahead of the mastering slots
+    this.hunterFilter = context.createBiquadFilter();
+    this.hunterSlot = slot([this.hunterFilter]);
+    // Its input carries the platform gain; no platform limiter until the worklet loads
+    this.platformSlot = slot([]);
+    this.slots = {
+      eq: slot([]),
+      compressor: slot([this.compressor, this.makeupGain]),
+      limiter: slot([this.limiterDrive, this.limiter]),
+    };
+    this.masterGain.connect(this.hunterSlot.input);
+    this.hunterSlot.output.connect(this.slots.eq.input);
+    this.slots.eq.output.connect(this.slots.compressor.input);
+    this.slots.compressor.output.connect(this.slots.limiter.input);
+    this.slots.limiter.output.connect(this.platformSlot.input);
+    this.platformSlot.output.connect(this.chainOutput);
+
+    // EQ level-change meter taps
+    this.eqInputMeter = context.createAnalyser();
+    this.eqOutputMeter = context.createAnalyser();
+    this.eqInputMeter.fftSize = 2048;
+    this.eqOutputMeter.fftSize = 2048;
+    this.meterData = new Float32Array(2048);
+    this.hunterSlot.output.connect(this.eqInputMeter);
+    this.slots.eq.output.connect(this.eqOutputMeter);
+
+    this.applyMastering();
+    this.routeSlot(this.hunterSlot, false);
+    this.routeSlot(this.platformSlot, false);
+
+    createLimiterNode(context).then(node => {
+      this.limiterMode = node ? 'lookahead' : 'fallback';
+      if (!node || !this.slots || !this.limiterDrive) return;
+      node.port.onmessage = (event: MessageEvent<{ reduction: number }>) => {
+        this.limiterReduction = event.data.reduction;
+      };
+      this.unrouteSlot(this.slots.limiter);
+      this.limiter = node;
+      this.slots.limiter.nodes = [this.limiterDrive, node];
+      this.applyMastering();
+    });
+
+    createLimiterNode(context).then(node => {
+      if (!node || !this.platformSlot) return;
+      node.parameters.get('ceiling')!.value = PLATFORM_LIMITER_CEILING_DB;
+      node.parameters.get('release')!.value = PLATFORM_LIMITER_RELEASE_MS;
+      this.unrouteSlot(this.platformSlot);
+      this.platformSlot.nodes = [node];
+      this.routeSlot(this.platformSlot, this.normalization?.limiter ?? false);
+    });
+  }
+
+  private buildCrossover() {
+    if (!this.context || !this.inputBus || !this.masterGain) return;
+
+    // Tear down the previous network
+    this.bandInputs.forEach(node => this.inputBus!.disconnect(node));
+    this.bandGains.forEach(gain => gain.disconnect());
+    this.bandInputs = [];
+    this.bandGains = [];
+
+    for (let i = 0; i <= this.crossover.length; i++) {
+      const band = createStemBand(this.context, i, this.crossover);
+      const gain = this.context.createGain();
+      gain.gain.value = this.getStemGain(i);
+
+      this.inputBus.connect(band.input);
+      band.output.connect(gain);
+      gain.connect(this.masterGain);
+      this.bandInputs.push(band.input);
+      this.bandGains.push(gain);
+    }
+  }
+
+  private resetStemSettings() {
+    const bands = this.crossover.length + 1;
+    this.stemVolumes = new Array(bands).fill(1);
+    this.stemMutes = new Array(bands).fill(false);
+  }
+
+  // --- Transport ---
+
+  private async decode(file: File): Promise<AudioBuffer> {
     if (!this.context) throw new Error("AudioContext not supported");
-    
-    this.stop();
-    this.buffer = null;
 
     if (this.context.state === 'suspended') {
       await this.context.resume();
@@ -50,161 +306,552 @@ class AudioEngine {
 
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const audioBuffer = await this.context.decodeAudioData(arrayBuffer);
-      this.buffer = audioBuffer;
-      this.pausedAt = 0;
-      this.startTime = 0;
-      return audioBuffer;
+      return await this.context.decodeAudioData(arrayBuffer);
     } catch (error) {
       console.error("Audio decoding failed:", error);
       throw new Error("Failed to decode audio data.");
     }
   }
 
+  /** Decodes a file without touching playback, e.g. for batch measurement. */
+  decodeFile(file: File): Promise<AudioBuffer> {
+    return this.decode(file);
+  }
+
+  async loadFile(file: File): Promise<AudioBuffer> {
+    if (!this.context) throw new Error("AudioContext not supported");
+
+    this.stop();
+    this.buffer = null;
+    if (this.loop) this.setLoop(null);
+    if (this.auditionEq) this.setAuditionEq(null);
+    if (this.hunter) this.setHunter(null);
+
+    const audioBuffer = await this.decode(file);
+    this.buffer = audioBuffer;
+    this.pausedAt = 0;
+    this.startTime = 0;
+    this.buildCrossover();
+    if (this.activeSource !== 'mix') this.setActiveSource('mix');
+    this.emit('loaded', { buffer: audioBuffer, duration: audioBuffer.duration });
+    this.emitTimeUpdate();
+    return audioBuffer;
+  }
+
+  // --- A/B Reference ---
+
+  /** Loads a reference track for A/B comparison. The mix keeps playing. */
+  async loadReference(file: File): Promise<AudioBuffer> {
+    const audioBuffer = await this.decode(file);
+    this.referenceBuffer = audioBuffer;
+
+    // Swap the playing reference for the new one at the same position
+    if (this.activeSource === 'reference' && this.isPlaying) {
+      const position = Math.min(this.getCurrentTime(), audioBuffer.duration);
+      this.stopSource();
+      this.startSource(position);
+    }
+    return audioBuffer;
+  }
+
+  clearReference() {
+    if (this.activeSource === 'reference') this.setActiveSource('mix');
+    this.referenceBuffer = null;
+  }
+
+  getReferenceBuffer(): AudioBuffer | null {
+    return this.referenceBuffer;
+  }
+
+  /** Trim applied to the reference only, e.g. the loudness-match offset. */
+  setReferenceGain(db: number) {
+    this.referenceGainDb = db;
+    this.applyTrim();
+  }
+
+  /** Switches between mix and reference instantly, keeping the playback position. */
+  setActiveSource(source: PlaybackSource) {
+    if (source === this.activeSource) return;
+    if (source === 'reference' && !this.referenceBuffer) return;
+
+    const position = this.getCurrentTime();
+    this.activeSource = source;
+    this.applyTrim();
+    this.applyPlatformGain();
+    this.routeAudition();
+    this.routeMastering();
+
+    const target = Math.min(position, this.getDuration());
+    if (this.isPlaying) {
+      this.stopSource();
+      this.startSource(target);
+    } else {
+      this.pausedAt = target;
+    }
+    this.emit('sourcechange', { source, duration: this.getDuration() });
+    this.emitTimeUpdate();
+  }
+
+  getActiveSource(): PlaybackSource {
+    return this.activeSource;
+  }
+
+  private getActiveBuffer(): AudioBuffer | null {
+    return this.activeSource === 'reference' ? this.referenceBuffer : this.buffer;
+  }
+
+  private applyTrim() {
+    if (!this.context || !this.trimGain) return;
+    // Under normalization each source gets its own platform gain instead of the loudness match
+    const db = this.activeSource === 'reference' && !this.normalization ? this.referenceGainDb : 0;
+    // Hard switch: A/B must flip on the same sample as the source swap
+    this.trimGain.gain.setValueAtTime(Math.pow(10, db / 20), this.context.currentTime);
+  }
+
+  private startSource(offset: number) {
+    const buffer = this.getActiveBuffer();
+    if (!this.context || !buffer || !this.trimGain) return;
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.trimGain);
+
+    // Native looping is sample-accurate, so the wrap is seamless
+    const loop = this.getEffectiveLoop();
+    if (loop) {
+      source.loop = true;
+      source.loopStart = loop.start;
+      source.loopEnd = loop.end;
+      // Starting outside the region snaps into it
+      if (offset < loop.start || offset >= loop.end) offset = loop.start;
+    }
+    source.onended = () => {
+      // Ignore sources we stopped ourselves (pause/seek replace this.sourceNode first)
+      if (source !== this.sourceNode) return;
+      this.sourceNode = null;
+      this.isPlaying = false;
+      this.pausedAt = 0;
+      this.stopClock();
+      this.emit('ended', { duration: this.getDuration() });
+      this.emitTimeUpdate();
+    };
+
+    source.start(0, offset);
+    this.sourceNode = source;
+    this.startTime = this.context.currentTime - offset;
+  }
+
+  private stopSource() {
+    if (!this.sourceNode) return;
+    const source = this.sourceNode;
+    this.sourceNode = null;
+    source.stop();
+    source.disconnect();
+  }
+
   play() {
-    if (!this.context || !this.buffer) return;
-    
+    if (!this.context || !this.buffer || this.isPlaying) return;
+
     if (this.context.state === 'suspended') {
       this.context.resume();
     }
 
-    if (!this.isPlaying) {
-      this.sourceNode = this.context.createBufferSource();
-      this.sourceNode.buffer = this.buffer;
-      
-      // Create Master Chain
-      this.masterGain = this.context.createGain();
-      this.analyser = this.context.createAnalyser();
-      this.analyser.fftSize = 2048;
-      this.analyser.smoothingTimeConstant = 0.85;
-
-      // --- Crossover Network Setup ---
-      
-      // 1. Low Band (< 250Hz)
-      this.lowFilter = this.context.createBiquadFilter();
-      this.lowFilter.type = 'lowpass';
-      this.lowFilter.frequency.value = 250;
-      this.lowGain = this.context.createGain();
-
-      // 2. Mid Band (250Hz - 4kHz)
-      // We need a bandpass effect. We can chain a HighPass @ 250 and LowPass @ 4000
-      this.midLowFilter = this.context.createBiquadFilter();
-      this.midLowFilter.type = 'highpass';
-      this.midLowFilter.frequency.value = 250;
-      
-      this.midHighFilter = this.context.createBiquadFilter();
-      this.midHighFilter.type = 'lowpass';
-      this.midHighFilter.frequency.value = 4000;
-      
-      this.midGain = this.context.createGain();
-
-      // 3. High Band (> 4kHz)
-      this.highFilter = this.context.createBiquadFilter();
-      this.highFilter.type = 'highpass';
-      this.highFilter.frequency.value = 4000;
-      this.highGain = this.context.createGain();
-
-
-      // --- Routing ---
-      
-      // Split Source to Filters
-      this.sourceNode.connect(this.lowFilter);
-      this.sourceNode.connect(this.midLowFilter);
-      this.sourceNode.connect(this.highFilter);
-
-      // Low Chain
-      this.lowFilter.connect(this.lowGain);
-      this.lowGain.connect(this.masterGain);
-
-      // Mid Chain
-      this.midLowFilter.connect(this.midHighFilter);
-      this.midHighFilter.connect(this.midGain);
-      this.midGain.connect(this.masterGain);
-
-      // High Chain
-      this.highFilter.connect(this.highGain);
-      this.highGain.connect(this.masterGain);
-
-      // Master Output
-      this.masterGain.connect(this.analyser);
-      this.analyser.connect(this.context.destination);
-
-      const offset = this.pausedAt;
-      this.sourceNode.start(0, offset);
-      this.startTime = this.context.currentTime - offset;
-      this.isPlaying = true;
-    }
+    this.startSource(this.pausedAt);
+    this.isPlaying = true;
+    this.startClock();
+    this.emit('play', { currentTime: this.pausedAt });
   }
 
   pause() {
-    if (!this.context || !this.isPlaying || !this.sourceNode) return;
-    
-    const elapsed = this.context.currentTime - this.startTime;
-    this.pausedAt = elapsed;
-    
-    this.sourceNode.stop();
-    this.sourceNode.disconnect();
-    this.sourceNode = null;
+    if (!this.context || !this.isPlaying) return;
+
+    this.pausedAt = this.getCurrentTime();
+    this.stopSource();
     this.isPlaying = false;
+    this.stopClock();
+    this.emit('pause', { currentTime: this.pausedAt });
+    this.emitTimeUpdate();
   }
 
   stop() {
     this.pause();
     this.pausedAt = 0;
+    this.emitTimeUpdate();
   }
 
   seek(time: number) {
     if (!this.context || !this.buffer) return;
-    
-    const wasPlaying = this.isPlaying;
-    if (wasPlaying) {
-      this.pause();
+
+    const target = Math.max(0, Math.min(time, this.getDuration()));
+    if (this.isPlaying) {
+      // Swap the source only; the graph and transport state stay as they are
+      this.stopSource();
+      this.startSource(target);
+    } else {
+      this.pausedAt = target;
+    }
+    this.emitTimeUpdate();
+  }
+
+  // --- Loop Region ---
+
+  /** Loop clamped to the active buffer, or null if looping is off or degenerate. */
+  private getEffectiveLoop(): LoopRegion | null {
+    if (!this.loop) return null;
+    const end = Math.min(this.loop.end, this.getDuration());
+    if (end - this.loop.start < MIN_LOOP_SECONDS) return null;
+    return { start: this.loop.start, end };
+  }
+
+  /**
+   * Sets (or clears, with null) the region playback repeats. Applies live while playing.
+   * While `dragging`, a looping source is never restarted: a playhead the region has moved
+   * away from is brought into it in place, and the final call snaps it if it is still outside.
+   */
+  setLoop(loop: LoopRegion | null, dragging: boolean = false) {
+    const position = this.getCurrentTime();
+
+    if (loop) {
+      const start = Math.max(0, Math.min(loop.start, loop.end));
+      const end = Math.max(loop.start, loop.end);
+      this.loop = { start, end };
+    } else {
+      this.loop = null;
     }
-    
-    this.pausedAt = time;
-    
-    if (wasPlaying) {
-      this.play();
+
+    const effective = this.getEffectiveLoop();
+    if (this.isPlaying && this.context && this.sourceNode) {
+      if (!effective) {
+        // Keep playing straight through from here
+        this.stopSource();
+        this.startSource(position);
+      } else if (this.sourceNode.loop && (dragging || (position >= effective.start && position < effective.end))) {
+        // Move the loop points on the running source and re-anchor the clock: no restart, no gap.
+        // Past the new end the source wraps to the start; before the start it plays on into the region.
+        this.sourceNode.loopStart = effective.start;
+        this.sourceNode.loopEnd = effective.end;
+        this.startTime = this.context.currentTime - (position >= effective.end ? effective.start : position);
+      } else {
+        this.stopSource();
+        this.startSource(position);
+      }
+    } else if (effective && (this.pausedAt < effective.start || this.pausedAt >= effective.end)) {
+      this.pausedAt = effective.start;
     }
+
+    this.emit('loopchange', { loop: this.loop ? { ...this.loop } : null });
+    this.emitTimeUpdate();
   }
 
-  // --- Stem Controls ---
+  getLoop(): LoopRegion | null {
+    return this.loop ? { ...this.loop } : null;
+  }
 
-  setStemVolume(stem: 'low' | 'mid' | 'high', value: number) {
-    if (!this.context) return;
-    
-    // Ensure nodes exist (if paused, we might need to store these values to apply on next play)
-    // For simplicity in this demo, this works best while playing or we assume nodes exist if we initialized once.
-    // Ideally, we'd store state in the class and apply it in play().
-    
-    // We will just set the value on the node if it exists. 
-    // If not playing, the React state holds the value and play() should use it (ToDo: Refactor for persistent state)
-    // For now, this works in real-time.
+  // --- Fix Audition ---
+
+  private routeAudition() {
+    if (!this.context || !this.trimGain || !this.inputBus) return;
+    this.trimGain.disconnect();
+    this.auditionFilter?.disconnect();
+    this.auditionFilter = null;
+
+    // The reference is always heard untouched
+    const eq = this.activeSource === 'mix' ? this.auditionEq : null;
+    if (!eq) {
+      this.trimGain.connect(this.inputBus);
+      return;
+    }
+
+    const filter = this.context.createBiquadFilter();
+    this.configureFilter(filter, eq);
+    this.trimGain.connect(filter);
+    filter.connect(this.inputBus);
+    this.auditionFilter = filter;
+  }
+
+  /** Inserts a suggested EQ move on the mix, or removes it (null) to hear the original. */
+  setAuditionEq(eq: EqMove | null) {
+    this.auditionEq = eq ? { ...eq } : null;
+    this.routeAudition();
+  }
+
+  getAuditionEq(): EqMove | null {
+    return this.auditionEq ? { ...this.auditionEq } : null;
+  }
+
+  private configureFilter(filter: BiquadFilterNode, eq: EqMove, ramp = false) {
+    filter.type = eq.type;
+    // Pass filters take Q in dB, peaking filters as a plain ratio
+    const q = eq.type === 'highpass' ? 20 * Math.log10(eq.q) : eq.q;
+    const set = (param: AudioParam, value: number) => {
+      if (ramp && this.context) param.setTargetAtTime(value, this.context.currentTime, PARAM_RAMP_SECONDS);
+      else param.value = value;
+    };
+    set(filter.frequency, eq.frequency);
+    set(filter.gain, eq.gain);
+    set(filter.Q, q);
+  }
+
+  // --- Problem Hunter ---
+
+  /** Sets (or clears, with null) the hunting band. Frequency changes glide, so it can follow the pointer. */
+  setHunter(band: HunterBand | null) {
+    if (!this.context || !this.hunterSlot || !this.hunterFilter) return;
+    const filter = this.hunterFilter;
+    const previous = this.hunter;
+    this.hunter = band ? { ...band } : null;
+    if (!band) {
+      this.routeSlot(this.hunterSlot, false);
+      return;
+    }
+
+    if (previous && previous.mode === band.mode) {
+      filter.frequency.setTargetAtTime(band.frequency, this.context.currentTime, HUNTER_GLIDE_SECONDS);
+    } else {
+      // Boost exaggerates the band in context, solo plays only the band
+      filter.type = band.mode === 'boost' ? 'peaking' : 'bandpass';
+      filter.frequency.cancelScheduledValues(this.context.currentTime);
+      filter.frequency.value = band.frequency;
+      filter.gain.value = HUNTER_BOOST_DB;
+      filter.Q.value = HUNTER_Q;
+    }
+    this.routeSlot(this.hunterSlot, true);
+  }
+
+  getHunter(): HunterBand | null {
+    return this.hunter ? { ...this.hunter } : null;
+  }
+
+  // --- Streaming Normalization ---
+
+  private applyPlatformGain() {
+    if (!this.context || !this.platformSlot) return;
+    const n = this.normalization;
+    const db = !n ? 0 : this.activeSource === 'reference' ? (n.referenceGain ?? 0) : n.mixGain;
+    // Hard switch, like the A/B trim: platforms and sources flip on the same sample
+    this.platformSlot.input.gain.setValueAtTime(dbToGain(db), this.context.currentTime);
+  }
+
+  /** Plays each source at the gain a platform would apply (after the mastering chain), or restores unity with null. */
+  setNormalization(normalization: PlaybackNormalization | null) {
+    this.normalization = normalization ? { ...normalization } : null;
+    this.applyTrim();
+    this.applyPlatformGain();
+    if (this.platformSlot) this.routeSlot(this.platformSlot, this.normalization?.limiter ?? false);
+  }
+
+  getNormalization(): PlaybackNormalization | null {
+    return this.normalization ? { ...this.normalization } : null;
+  }
+
+  // --- Insert Slots ---
+
+  private unrouteSlot(slot: InsertSlot) {
+    slot.input.disconnect();
+    slot.nodes.forEach(node => node.disconnect());
+    slot.routed = null;
+  }
+
+  /** Wires a slot as input → nodes → output, or straight through when bypassed. Only rewires on change. */
+  private routeSlot(slot: InsertSlot, active: boolean) {
+    if (slot.routed === active) return;
+    this.unrouteSlot(slot);
+    const chain = active ? [slot.input, ...slot.nodes, slot.output] : [slot.input, slot.output];
+    for (let i = 1; i < chain.length; i++) chain[i - 1].connect(chain[i]);
+    slot.routed = active;
+  }
+
+  // --- Mastering Chain ---
+
+  private isSlotActive(id: MasteringSlotId): boolean {
+    // The reference is always heard untouched
+    return this.activeSource === 'mix' && !this.mastering[id].bypass;
+  }
+
+  private routeMastering() {
+    if (!this.slots) return;
+    (Object.keys(this.slots) as MasteringSlotId[]).forEach(id => this.routeSlot(this.slots![id], this.isSlotActive(id)));
+  }
+
+  private applyMastering() {
+    if (!this.context || !this.slots || !this.compressor || !this.makeupGain || !this.limiterDrive || !this.limiter) return;
+    const now = this.context.currentTime;
+    const ramp = (param: AudioParam, value: number) => param.setTargetAtTime(value, now, PARAM_RAMP_SECONDS);
+
+    // EQ: retune in place while the band layout is unchanged, otherwise rebuild the filters
+    const { bands } = this.mastering.eq;
+    const eqSlot = this.slots.eq;
+    const filters = eqSlot.nodes as BiquadFilterNode[];
+    if (filters.length === bands.length && filters.every((filter, i) => filter.type === bands[i].type)) {
+      filters.forEach((filter, i) => this.configureFilter(filter, bands[i], true));
+    } else {
+      this.unrouteSlot(eqSlot);
+      eqSlot.nodes = bands.map(band => {
+        const filter = this.context!.createBiquadFilter();
+        this.configureFilter(filter, band);
+        return filter;
+      });
+    }
+
+    // The node applies its own automatic makeup as well; ours is on top
+    const comp = this.mastering.compressor;
+    ramp(this.compressor.threshold, comp.threshold);
+    ramp(this.compressor.ratio, comp.ratio);
+    ramp(this.compressor.knee, comp.knee);
+    ramp(this.compressor.attack, comp.attack / 1000);
+    ramp(this.compressor.release, comp.release / 1000);
+    ramp(this.makeupGain.gain, dbToGain(comp.makeup));
+
+    const lim = this.mastering.limiter;
+    ramp(this.limiterDrive.gain, dbToGain(lim.drive));
+    if (this.limiter instanceof AudioWorkletNode) {
+      ramp(this.limiter.parameters.get('ceiling')!, lim.ceiling);
+      ramp(this.limiter.parameters.get('release')!, lim.release);
+    } else {
+      // Fast, hard-kneed compression as a rough stand-in; not a true brickwall
+      ramp(this.limiter.threshold, lim.ceiling);
+      ramp(this.limiter.ratio, 20);
+      ramp(this.limiter.knee, 0);
+      ramp(this.limiter.attack, 0.001);
+      ramp(this.limiter.release, lim.release / 1000);
+    }
+
+    this.routeMastering();
+  }
+
+  /** Replaces the mastering-chain settings. Applies live; nothing is rendered into exports. */
+  setMasteringChain(settings: MasteringChainSettings) {
+    this.mastering = structuredClone(settings);
+    this.applyMastering();
+    this.emit('masteringchange', { active: this.isMasteringActive() });
+  }
 
-    const time = this.context.currentTime;
-    const rampTime = 0.1;
+  /** Whether any chain slot is switched on. */
+  isMasteringActive(): boolean {
+    return (Object.keys(this.mastering) as MasteringSlotId[]).some(id => !this.mastering[id].bypass);
+  }
+
+  getMasteringChain(): MasteringChainSettings {
+    return structuredClone(this.mastering);
+  }
+
+  private meterRms(analyser: AnalyserNode): number {
+    const data = this.meterData!;
+    analyser.getFloatTimeDomainData(data);
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+    return Math.sqrt(sum / data.length);
+  }
+
+  /** Whether the limiter slot runs the lookahead worklet or the compressor fallback ('loading' until it is built). */
+  getLimiterMode(): LimiterMode {
+    return this.limiterMode;
+  }
 
-    if (stem === 'low' && this.lowGain) {
-        this.lowGain.gain.setTargetAtTime(value, time, rampTime);
-    } else if (stem === 'mid' && this.midGain) {
-        this.midGain.gain.setTargetAtTime(value, time, rampTime);
-    } else if (stem === 'high' && this.highGain) {
-        this.highGain.gain.setTargetAtTime(value, time, rampTime);
+  /** Current work done by each slot in dB; 0 for slots that are bypassed. */
+  getMasteringMeters(): MasteringMeters {
+    const meters: MasteringMeters = { eq: 0, compressor: 0, limiter: 0 };
+    if (!this.isPlaying) return meters;
+
+    if (this.isSlotActive('eq') && this.eqInputMeter && this.eqOutputMeter) {
+      const input = this.meterRms(this.eqInputMeter);
+      const output = this.meterRms(this.eqOutputMeter);
+      if (input > SILENCE_RMS && output > SILENCE_RMS) meters.eq = 20 * Math.log10(output / input);
+    }
+    if (this.isSlotActive('compressor') && this.compressor) {
+      meters.compressor = Math.min(0, this.compressor.reduction);
+    }
+    if (this.isSlotActive('limiter') && this.limiter) {
+      meters.limiter = Math.min(0, this.limiter instanceof AudioWorkletNode ? this.limiterReduction : this.limiter.reduction);
     }
+    return meters;
+  }
+
+  // --- Stem Controls ---
+
+  private getStemGain(index: number): number {
+    return this.stemMutes[index] ? 0 : (this.stemVolumes[index] ?? 1);
+  }
+
+  private applyStemGain(index: number) {
+    const gain = this.bandGains[index];
+    if (!this.context || !gain) return;
+    gain.gain.setTargetAtTime(this.getStemGain(index), this.context.currentTime, STEM_RAMP_SECONDS);
+  }
+
+  setStemVolume(index: number, value: number) {
+    this.stemVolumes[index] = value;
+    this.applyStemGain(index);
+  }
+
+  setStemMute(index: number, muted: boolean) {
+    this.stemMutes[index] = muted;
+    this.applyStemGain(index);
+  }
+
+  getStemVolume(index: number): number {
+    return this.stemVolumes[index] ?? 1;
+  }
+
+  isStemMuted(index: number): boolean {
+    return this.stemMutes[index] ?? false;
+  }
+
+  /**
+   * Sets the crossover split points (ascending Hz, one fewer than the band count).
+   * Stem settings reset to unity when the band count changes.
+   */
+  setCrossover(frequencies: number[]) {
+    const bandCountChanged = frequencies.length !== this.crossover.length;
+    this.crossover = [...frequencies];
+    if (bandCountChanged) this.resetStemSettings();
+    if (this.buffer) this.buildCrossover();
+  }
+
+  getCrossover(): number[] {
+    return [...this.crossover];
+  }
+
+  // --- Accessors ---
+
+  getBuffer(): AudioBuffer | null {
+    return this.buffer;
   }
 
   getAnalyser() {
     return this.analyser;
   }
 
+  getStereoAnalysers(): { left: AnalyserNode; right: AnalyserNode } | null {
+    if (!this.leftAnalyser || !this.rightAnalyser) return null;
+    return { left: this.leftAnalyser, right: this.rightAnalyser };
+  }
+
   getCurrentTime() {
     if (!this.context || !this.isPlaying) return this.pausedAt;
-    return this.context.currentTime - this.startTime;
+    const elapsed = this.context.currentTime - this.startTime;
+
+    // Fold the linear clock back into the loop once it has wrapped
+    const loop = this.sourceNode?.loop ? this.getEffectiveLoop() : null;
+    if (loop && elapsed >= loop.end) {
+      return loop.start + ((elapsed - loop.end) % (loop.end - loop.start));
+    }
+    return elapsed;
   }
 
   getDuration() {
-    return this.buffer ? this.buffer.duration : 0;
+    const buffer = this.getActiveBuffer();
+    return buffer ? buffer.duration : 0;
+  }
+
+  getState(): AudioState {
+    return {
+      isPlaying: this.isPlaying,
+      currentTime: this.getCurrentTime(),
+      duration: this.getDuration(),
+      volume: this.masterGain ? this.masterGain.gain.value : 1,
+    };
   }
 }
 
-export const audioEngine = new AudioEngine();
\ No newline at end of file
+export const audioEngine = new AudioEngine();
@@ -0,0 +1,121 @@
+/**
+ * RøcAudio Source Format
+ * Reads sample rate and bit depth from the file header. The decoded AudioBuffer
+ * can't tell us either: decodeAudioData resamples to the context rate and
+ * hands back 32-bit float whatever was stored.
+ */
+
+import { SourceFormat } from '../types';
+
+const HEADER_BYTES = 1 << 20; // fmt/COMM sit near the start, after at most a few metadata chunks
+
+const UNKNOWN: SourceFormat = { container: 'unknown', lossless: false, sampleRate: null, bitDepth: null, float: false };
+
+const fourCC = (view: DataView, offset: number): string => {
+  if (offset + 4 > view.byteLength) return '';
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+};
+
+const readWav = (view: DataView): SourceFormat | null => {
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 24 <= view.byteLength) {
+      let formatTag = view.getUint16(offset + 8, true);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first two bytes of the sub-format GUID
+      if (formatTag === 0xfffe && offset + 34 <= view.byteLength) formatTag = view.getUint16(offset + 32, true);
+      return {
+        container: 'wav',
+        lossless: formatTag === 1 || formatTag === 3,
+        sampleRate: view.getUint32(offset + 12, true),
+        bitDepth: view.getUint16(offset + 22, true),
+        float: formatTag === 3,
+      };
+    }
+    offset += 8 + size + (size % 2); // Chunks are word-aligned
+  }
+  return null;
+};
+
+/** 80-bit IEEE 754 extended float, as AIFF stores its sample rate. */
+const readExtended = (view: DataView, offset: number): number => {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const mantissa = view.getUint32(offset + 2) * 2 ** 32 + view.getUint32(offset + 6);
+  return mantissa * 2 ** (exponent - 16383 - 63);
+};
+
+const readAiff = (view: DataView): SourceFormat | null => {
+  const aifc = fourCC(view, 8) === 'AIFC';
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4);
+    if (id === 'COMM' && offset + 26 <= view.byteLength) {
+      const compression = aifc ? fourCC(view, offset + 26) : 'NONE';
+      const float = compression === 'fl32' || compression === 'fl64';
+      return {
+        container: 'aiff',
+        lossless: compression === 'NONE' || compression === 'sowt' || float,
+        sampleRate: Math.round(readExtended(view, offset + 16)),
+        bitDepth: view.getUint16(offset + 14),
+        float,
+      };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+const readFlac = (view: DataView): SourceFormat | null => {
+  // STREAMINFO is always the first metadata block; rate, channels and depth are packed from byte 10
+  if (view.byteLength < 8 + 18) return null;
+  const base = 8 + 10;
+  const packed = view.getUint32(base);
+  return {
+    container: 'flac',
+    lossless: true,
+    sampleRate: packed >>> 12,
+    bitDepth: ((packed >>> 4) & 0x1f) + 1,
+    float: false,
+  };
+};
+
+/** MP4/M4A: the codec is named in the sample description, which only sits in the header when moov comes first. */
+const readMp4 = (view: DataView): SourceFormat => {
+  const a = 'a'.charCodeAt(0);
+  const m = 'm'.charCodeAt(0);
+  for (let offset = 0; offset + 4 <= view.byteLength; offset++) {
+    const first = view.getUint8(offset);
+    if (first !== a && first !== m) continue;
+    const id = fourCC(view, offset);
+    if (id === 'alac') return { container: 'alac', lossless: true, sampleRate: null, bitDepth: null, float: false };
+    if (id === 'mp4a') return lossy('aac');
+  }
+  return { ...UNKNOWN, container: 'mp4' };
+};
+
+const lossy = (container: SourceFormat['container']): SourceFormat => ({ container, lossless: false, sampleRate: null, bitDepth: null, float: false });
+
+export const readSourceFormat = async (file: Blob): Promise<SourceFormat> => {
+  const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const magic = fourCC(view, 0);
+
+  if ((magic === 'RIFF' || magic === 'RF64') && fourCC(view, 8) === 'WAVE') return readWav(view) ?? { ...UNKNOWN, container: 'wav' };
+  if (magic === 'FORM' && (fourCC(view, 8) === 'AIFF' || fourCC(view, 8) === 'AIFC')) return readAiff(view) ?? { ...UNKNOWN, container: 'aiff' };
+  if (magic === 'fLaC') return readFlac(view) ?? { ...UNKNOWN, container: 'flac', lossless: true };
+  if (magic === 'OggS') return lossy('ogg');
+  if (fourCC(view, 4) === 'ftyp') return readMp4(view);
+  if (magic.startsWith('ID3') || (view.byteLength > 1 && view.getUint8(0) === 0xff && (view.getUint8(1) & 0xe0) === 0xe0)) return lossy('mp3');
+  return UNKNOWN;
+};
+
+export const describeSourceFormat = (format: SourceFormat): string => {
+  if (format.container === 'unknown') return 'Unknown format';
+  if (format.container === 'mp4') return 'MP4 (codec not in header)';
+  const name = format.container.toUpperCase();
+  if (!format.lossless) return `${name} (lossy)`;
+  const depth = format.bitDepth ? `${format.bitDepth}-bit${format.float ? ' float' : ''}` : '';
+  const rate = format.sampleRate ? `${format.sampleRate / 1000}kHz` : '';
+  return [name, depth, rate].filter(Boolean).join(' · ');
+};
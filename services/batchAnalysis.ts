@@ -0,0 +1,177 @@
+/**
+ * RøcAudio Batch Analysis
+ * Measures and analyses every track of an album/EP through a small work queue,
+ * storing each as a revision so its report opens like any other mix, and
+ * flags the tracks whose loudness or tonal tilt stands out from the rest.
+ */
+
+import { AnalysisProviderId, BatchTrack, LoudnessMetrics, Revision } from '../types';
+import { audioEngine } from './audioEngine';
+import { getAnalysisProvider } from './analysisProviders';
+import { throwIfCancelled, toAnalysisError } from './analysisErrors';
+import { measureLoudness } from './loudness';
+import { computeLongTermSpectrum, spectralTilt } from './spectrum';
+import { analyzeStereo } from './stereo';
+import { analyzeMusical } from './musicalAnalysis';
+import { detectSections } from './sections';
+import { DEFAULT_CROSSOVER } from './crossover';
+import { findOrCreateProject, getRevision, hashFile, projectNameFromFile, saveRevision, updateRevision } from './projectStore';
+
+// Measuring runs on the main thread; a second slot mostly overlaps one track's upload with the next one's decode
+export const BATCH_CONCURRENCY = 2;
+export const LOUDNESS_OUTLIER_LU = 1.5; // Integrated loudness away from the album median
+export const TILT_OUTLIER_DB = 0.75;    // dB/octave away from the album median
+
+export interface BatchOptions {
+  providerId: AnalysisProviderId;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onUpdate: (id: string, changes: Partial<BatchTrack>) => void;
+}
+
+/** How far a track sits from the album median; null when it is in line or not measured yet. */
+export interface BatchOutlier {
+  loudness: number | null; // LU
+  tilt: number | null;     // dB/octave
+}
+
+export const createBatchTrack = (file: File): BatchTrack => ({
+  id: crypto.randomUUID(),
+  file,
+  hash: null,
+  status: 'queued',
+  loudness: null,
+  spectrum: null,
+  musical: null,
+  analysis: null,
+  error: null,
+});
+
+/** Measures a new bounce and saves it under its song's project. */
+const storeTrack = async (file: File, hash: string, buffer: AudioBuffer, update: (changes: Partial<BatchTrack>) => void): Promise<Revision> => {
+  const loudness = measureLoudness(buffer);
+  const spectrum = computeLongTermSpectrum(buffer);
+  update({ loudness, spectrum });
+  const stereo = await analyzeStereo(buffer, DEFAULT_CROSSOVER);
+  const musical = await analyzeMusical(buffer);
+  update({ musical });
+  const sections = await detectSections(buffer, spectrum);
+
+  // A new bounce of a song already in the library joins that song's project
+  const project = await findOrCreateProject(projectNameFromFile(file.name));
+  const revision: Revision = {
+    hash,
+    projectId: project.id,
+    fileName: file.name,
+    mimeType: file.type,
+    size: file.size,
+    audio: file,
+    createdAt: Date.now(),
+    analysis: null,
+    providerId: null,
+    loudness,
+    stereo,
+    musical,
+    spectrum,
+    sections,
+    loop: null,
+    stems: { crossover: DEFAULT_CROSSOVER, volumes: {}, mutes: {} },
+  };
+  await saveRevision(revision);
+  return revision;
+};
+
+const processTrack = async (track: BatchTrack, options: BatchOptions) => {
+  const { file } = track;
+  const update = (changes: Partial<BatchTrack>) => options.onUpdate(track.id, changes);
+  update({ status: 'measuring' });
+
+  const hash = await hashFile(file);
+  update({ hash });
+  const existing = await getRevision(hash);
+  if (existing) update({ loudness: existing.loudness, spectrum: existing.spectrum, musical: existing.musical });
+
+  // Analysed before: reuse the report instead of decoding and paying for it again
+  if (existing?.analysis && existing.loudness && existing.spectrum) {
+    update({ status: 'done', analysis: existing.analysis });
+    return;
+  }
+
+  throwIfCancelled(options.signal);
+  const buffer = await audioEngine.decodeFile(file);
+  const revision = existing?.loudness && existing.spectrum ? existing : await storeTrack(file, hash, buffer, update);
+
+  throwIfCancelled(options.signal);
+  update({ status: 'analyzing' });
+  const analysis = await getAnalysisProvider(options.providerId).analyze({
+    file, buffer,
+    loudness: revision.loudness,
+    spectrum: revision.spectrum,
+    stereo: revision.stereo,
+    musical: revision.musical,
+    sections: revision.sections,
+    signal: options.signal,
+  });
+  throwIfCancelled(options.signal);
+  await updateRevision(hash, { analysis, providerId: options.providerId });
+  update({ status: 'done', analysis });
+};
+
+/** Works through the tracks with at most `concurrency` in flight; resolves once every track has settled. */
+export const runBatch = async (tracks: BatchTrack[], options: BatchOptions): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tracks.length) {
+      const index = next++;
+      const track = tracks[index];
+      if (options.signal?.aborted) {
+        options.onUpdate(track.id, { status: 'cancelled' });
+        continue;
+      }
+      try {
+        await processTrack(track, options);
+      } catch (err) {
+        const error = toAnalysisError(err);
+        console.error(err);
+        options.onUpdate(track.id, error.kind === 'cancelled' || options.signal?.aborted
+          ? { status: 'cancelled' }
+          : { status: 'error', error: error.message });
+      }
+    }
+  };
+  const workers = Math.max(1, Math.min(options.concurrency ?? BATCH_CONCURRENCY, tracks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const measuredLoudness = (loudness: LoudnessMetrics | null): number | null => {
+  return loudness && Number.isFinite(loudness.integrated) ? loudness.integrated : null;
+};
+
+/** Deviations from the album median, by track id. Needs at least three measured tracks to call anything out of line. */
+export const findBatchOutliers = (tracks: BatchTrack[]): Record<string, BatchOutlier> => {
+  const levels = tracks.map(t => measuredLoudness(t.loudness));
+  const tilts = tracks.map(t => (t.spectrum ? spectralTilt(t.spectrum) : null));
+  const measuredLevels = levels.filter((v): v is number => v !== null);
+  const measuredTilts = tilts.filter((v): v is number => v !== null);
+  const levelMedian = measuredLevels.length >= 3 ? median(measuredLevels) : null;
+  const tiltMedian = measuredTilts.length >= 3 ? median(measuredTilts) : null;
+
+  const outliers: Record<string, BatchOutlier> = {};
+  tracks.forEach((track, i) => {
+    const level = levels[i];
+    const tilt = tilts[i];
+    const loudnessDelta = level !== null && levelMedian !== null ? level - levelMedian : null;
+    const tiltDelta = tilt !== null && tiltMedian !== null ? tilt - tiltMedian : null;
+    outliers[track.id] = {
+      loudness: loudnessDelta !== null && Math.abs(loudnessDelta) > LOUDNESS_OUTLIER_LU ? loudnessDelta : null,
+      tilt: tiltDelta !== null && Math.abs(tiltDelta) > TILT_OUTLIER_DB ? tiltDelta : null,
+    };
+  });
+  return outliers;
+};
@@ -0,0 +1,169 @@
+/**
+ * RøcAudio Crossover Network
+ * Linkwitz-Riley 24dB/oct multiband split that sums flat at unity gain.
+ *
+ * Band i = HP(f0..f[i-1]) · LP(f[i]) · AP(f[i+1]..)
+ * The allpass sections give every band the same phase rotation as its
+ * neighbours, so the bands recombine into a pure allpass of the input.
+ */
+
+import { StemControl } from '../types';
+
+export const MIN_BANDS = 2;
+export const MAX_BANDS = 6;
+export const DEFAULT_CROSSOVER = [250, 4000];
+
+const MIN_HZ = 20;
+const MAX_HZ = 20000;
+const MIN_SPACING = 1.25; // Minimum ratio between neighbouring crossover points
+
+// Butterworth Q. Lowpass/highpass BiquadFilterNode Q is in dB, allpass Q is linear.
+const POINT_SPREAD = Math.pow(2, 1 / 3);  // A single frequency is read as the 1/3 octave around it
+const BUTTERWORTH_Q = Math.SQRT1_2;
+const BUTTERWORTH_Q_DB = 20 * Math.log10(BUTTERWORTH_Q);
+
+const DEFAULT_FREQUENCIES: Record<number, number[]> = {
+  2: [500],
+  3: DEFAULT_CROSSOVER,
+  4: [120, 800, 5000],
+  5: [80, 300, 2000, 8000],
+  6: [60, 250, 1000, 4000, 10000],
+};
+
+const BAND_LAYOUTS: Record<number, { id: string; name: string; color: string; hex: string }[]> = {
+  2: [
+    { id: 'low', name: 'Low', color: 'bg-red-500', hex: '#ef4444' },
+    { id: 'high', name: 'High', color: 'bg-green-500', hex: '#22c55e' },
+  ],
+  3: [
+    { id: 'low', name: 'Low / Bass', color: 'bg-red-500', hex: '#ef4444' },
+    { id: 'mid', name: 'Mids / Vocals', color: 'bg-yellow-500', hex: '#eab308' },
+    { id: 'high', name: 'Highs / Air', color: 'bg-green-500', hex: '#22c55e' },
+  ],
+  4: [
+    { id: 'low', name: 'Low', color: 'bg-red-500', hex: '#ef4444' },
+    { id: 'low-mid', name: 'Low-Mid', color: 'bg-orange-500', hex: '#f97316' },
+    { id: 'high-mid', name: 'High-Mid', color: 'bg-yellow-500', hex: '#eab308' },
+    { id: 'high', name: 'High', color: 'bg-green-500', hex: '#22c55e' },
+  ],
+  5: [
+    { id: 'sub', name: 'Sub', color: 'bg-red-500', hex: '#ef4444' },
+    { id: 'low', name: 'Low', color: 'bg-orange-500', hex: '#f97316' },
+    { id: 'mid', name: 'Mid', color: 'bg-yellow-500', hex: '#eab308' },
+    { id: 'presence', name: 'Presence', color: 'bg-green-500', hex: '#22c55e' },
+    { id: 'air', name: 'Air', color: 'bg-cyan-500', hex: '#06b6d4' },
+  ],
+  6: [
+    { id: 'sub', name: 'Sub', color: 'bg-red-500', hex: '#ef4444' },
+    { id: 'low', name: 'Low', color: 'bg-orange-500', hex: '#f97316' },
+    { id: 'low-mid', name: 'Low-Mid', color: 'bg-yellow-500', hex: '#eab308' },
+    { id: 'high-mid', name: 'High-Mid', color: 'bg-green-500', hex: '#22c55e' },
+    { id: 'presence', name: 'Presence', color: 'bg-cyan-500', hex: '#06b6d4' },
+    { id: 'air', name: 'Air', color: 'bg-blue-500', hex: '#3b82f6' },
+  ],
+};
+
+export const formatHz = (hz: number): string => {
+  if (hz >= 1000) {
+    const k = hz / 1000;
+    return `${Number.isInteger(k) ? k : k.toFixed(1)}kHz`;
+  }
+  return `${Math.round(hz)}Hz`;
+};
+
+/** "200Hz", "2-5kHz", "200Hz-4kHz", "< 250Hz" -> [low, high] in Hz; null for "Full band" etc. */
+export const parseFrequencyRange = (text: string): [number, number] | null => {
+  const match = text.match(/([\d.]+)\s*(k?)(hz)?\s*(?:-|–|to)\s*([\d.]+)\s*(k?)hz/i);
+  if (match) {
+    // "2-5kHz": a unit written only on the second number applies to both
+    const lowKilo = match[2] !== '' || (!match[3] && match[5] !== '');
+    const low = parseFloat(match[1]) * (lowKilo ? 1000 : 1);
+    const high = parseFloat(match[4]) * (match[5] ? 1000 : 1);
+    return low <= high ? [low, high] : [high, low];
+  }
+
+  const single = text.match(/([<>])?\s*([\d.]+)\s*(k?)hz/i);
+  if (!single) return null;
+  const freq = parseFloat(single[2]) * (single[3] ? 1000 : 1);
+  if (single[1] === '<') return [MIN_HZ, freq];
+  if (single[1] === '>') return [freq, MAX_HZ];
+  return [freq / POINT_SPREAD, freq * POINT_SPREAD];
+};
+
+export const defaultCrossover = (bands: number): number[] => {
+  const count = Math.max(MIN_BANDS, Math.min(MAX_BANDS, Math.round(bands)));
+  return [...DEFAULT_FREQUENCIES[count]];
+};
+
+/** Clamps to the audible range, sorts, and enforces a minimum spacing between points. */
+export const normalizeCrossover = (frequencies: number[]): number[] => {
+  const sorted = frequencies
+    .map(f => Math.max(MIN_HZ, Math.min(MAX_HZ, f)))
+    .sort((a, b) => a - b);
+  for (let i = 1; i < sorted.length; i++) {
+    sorted[i] = Math.max(sorted[i], sorted[i - 1] * MIN_SPACING);
+  }
+  return sorted.map(f => Math.round(Math.min(f, MAX_HZ)));
+};
+
+export const buildStemDefs = (frequencies: number[]): StemControl[] => {
+  const layout = BAND_LAYOUTS[frequencies.length + 1];
+  if (!layout) throw new Error(`Unsupported band count: ${frequencies.length + 1}`);
+
+  return layout.map((band, index) => {
+    const lowHz = index === 0 ? MIN_HZ : frequencies[index - 1];
+    const highHz = index === frequencies.length ? MAX_HZ : frequencies[index];
+    return {
+      ...band,
+      index,
+      lowHz,
+      highHz,
+      frequencyRange: `${formatHz(lowHz)} - ${formatHz(highHz)}`,
+    };
+  });
+};
+
+// --- Filter Construction ---
+
+const createSection = (ctx: BaseAudioContext, type: BiquadFilterType, frequency: number): BiquadFilterNode => {
+  const filter = ctx.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = frequency;
+  filter.Q.value = type === 'allpass' ? BUTTERWORTH_Q : BUTTERWORTH_Q_DB;
+  return filter;
+};
+
+export interface StemBand {
+  input: AudioNode;
+  output: AudioNode;
+}
+
+/**
+ * Builds the filter chain for one crossover band.
+ * Works on any BaseAudioContext so offline renders match live playback exactly.
+ */
+export const createStemBand = (ctx: BaseAudioContext, index: number, frequencies: number[]): StemBand => {
+  const sections: BiquadFilterNode[] = [];
+
+  frequencies.forEach((frequency, j) => {
+    if (j < index) {
+      // LR4 highpass = two cascaded Butterworth highpasses
+      sections.push(createSection(ctx, 'highpass', frequency), createSection(ctx, 'highpass', frequency));
+    } else if (j === index) {
+      sections.push(createSection(ctx, 'lowpass', frequency), createSection(ctx, 'lowpass', frequency));
+    } else {
+      // Phase compensation for the splits this band does not pass through
+      sections.push(createSection(ctx, 'allpass', frequency));
+    }
+  });
+
+  if (sections.length === 0) {
+    const passthrough = ctx.createGain();
+    return { input: passthrough, output: passthrough };
+  }
+
+  for (let i = 1; i < sections.length; i++) {
+    sections[i - 1].connect(sections[i]);
+  }
+  return { input: sections[0], output: sections[sections.length - 1] };
+};
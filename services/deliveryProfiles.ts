@@ -0,0 +1,76 @@
+/**
+ * RøcAudio Delivery Profiles
+ * What each destination accepts. Streaming services normalise loudness rather
+ * than reject it, so their loudness and headroom rules only warn; broadcast
+ * and Apple Digital Masters hard-fail on the specs they enforce.
+ */
+
+import { DeliveryProfileId, QcStatus } from '../types';
+
+type Rule = Exclude<QcStatus, 'pass'>;
+
+export interface DeliveryProfile {
+  id: DeliveryProfileId;
+  name: string;
+  description: string;
+  lossless: boolean;            // Source must be PCM/FLAC
+  minSampleRate: number;        // Hz
+  exactSampleRate?: number;     // Hz, when only one rate is accepted
+  minBitDepth: number;
+  exactBitDepth?: number;
+  maxTruePeak: number;          // dBTP
+  truePeakRule: Rule;
+  interSampleOverRule: Rule;
+  loudness: { target: number; tolerance: number; rule: Rule } | null;  // LUFS integrated, ± LU
+  minDuration?: number;         // seconds
+}
+
+export const DELIVERY_PROFILES: DeliveryProfile[] = [
+  {
+    id: 'spotify',
+    name: 'Spotify',
+    description: 'Normalised to -14 LUFS; -1 dBTP recommended, -2 dBTP for masters louder than -14 LUFS.',
+    lossless: true, minSampleRate: 44100, minBitDepth: 16,
+    maxTruePeak: -1, truePeakRule: 'warn', interSampleOverRule: 'warn',
+    loudness: { target: -14, tolerance: 1, rule: 'warn' },
+  },
+  {
+    id: 'apple',
+    name: 'Apple Music (ADM)',
+    description: 'Apple Digital Masters: 24-bit hi-res source, no clipping including inter-sample overs; Sound Check at -16 LUFS.',
+    lossless: true, minSampleRate: 44100, minBitDepth: 24,
+    maxTruePeak: -1, truePeakRule: 'warn', interSampleOverRule: 'fail',
+    loudness: { target: -16, tolerance: 1, rule: 'warn' },
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    description: 'Normalised to about -14 LUFS; lossy uploads are accepted but re-encoded.',
+    lossless: false, minSampleRate: 44100, minBitDepth: 16,
+    maxTruePeak: -1, truePeakRule: 'warn', interSampleOverRule: 'warn',
+    loudness: { target: -14, tolerance: 1, rule: 'warn' },
+  },
+  {
+    id: 'ebu-r128',
+    name: 'EBU R128 Broadcast',
+    description: '-23 LUFS ±0.5 LU, true peak at most -1 dBTP, 48kHz / 24-bit.',
+    lossless: true, minSampleRate: 48000, exactSampleRate: 48000, minBitDepth: 24,
+    maxTruePeak: -1, truePeakRule: 'fail', interSampleOverRule: 'fail',
+    loudness: { target: -23, tolerance: 0.5, rule: 'fail' },
+  },
+  {
+    id: 'cd',
+    name: 'CD Red Book',
+    description: '44.1kHz / 16-bit PCM, tracks at least 4 seconds long.',
+    lossless: true, minSampleRate: 44100, exactSampleRate: 44100, minBitDepth: 16, exactBitDepth: 16,
+    maxTruePeak: 0, truePeakRule: 'warn', interSampleOverRule: 'warn',
+    loudness: null,
+    minDuration: 4,
+  },
+];
+
+export const DEFAULT_DELIVERY_PROFILE: DeliveryProfileId = 'spotify';
+
+export const getDeliveryProfile = (id: DeliveryProfileId): DeliveryProfile => {
+  return DELIVERY_PROFILES.find(profile => profile.id === id) ?? DELIVERY_PROFILES[0];
+};
@@ -0,0 +1,253 @@
+/**
+ * RøcAudio Delivery QC
+ * Technical checks a distributor or broadcaster runs before accepting a master:
+ * clipping, inter-sample overs, DC offset, head/tail silence, channel polarity
+ * and the stored sample rate / bit depth, judged against a delivery profile.
+ */
+
+import { DeliveryMeasurements, DeliveryProfileId, DeliveryReport, LoudnessMetrics, QcCheck, QcStatus } from '../types';
+import { formatLevel } from './loudness';
+import { describeSourceFormat, readSourceFormat } from './audioFormat';
+import { getDeliveryProfile } from './deliveryProfiles';
+
+const CLIP_LEVEL = 32767 / 32768;   // Full scale as a 16-bit file stores it
+const CLIP_RUN_SAMPLES = 3;         // Consecutive full-scale samples that count as clipping
+const SILENCE_LEVEL = 0.001;        // -60 dBFS sample peak
+const POLARITY_CUTOFF_HZ = 150;     // Below this, real mixes are close to mono
+const DC_WARN_DB = -60;
+const DC_FAIL_DB = -40;
+const MAX_LEADING_SILENCE = 2;      // seconds
+const MAX_TRAILING_SILENCE = 10;
+const POLARITY_FAIL_CORRELATION = -0.5;
+const MIN_LOW_POWER = 1e-9;         // Too little low end to judge polarity
+
+const toDb = (linear: number): number => (linear > 0 ? 20 * Math.log10(linear) : -Infinity);
+
+const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s < 10 ? '0' : ''}${s.toFixed(1)}`;
+};
+
+/**
+ * Bits the samples really use. Decoded PCM is an exact multiple of 2^-(depth-1),
+ * so the lowest set bit across all samples shows zero-padding. Null when that
+ * doesn't hold (float, resampled on decode, silence).
+ */
+const measureEffectiveBitDepth = (buffer: AudioBuffer, bitDepth: number): number | null => {
+  const scale = 2 ** (bitDepth - 1);
+  let used = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const value = data[i] * scale;
+      const int = Math.round(value);
+      if (int !== value) return null;
+      used |= Math.abs(int);
+    }
+  }
+  if (used === 0) return null;
+  let unused = 0;
+  while ((used & 1) === 0) {
+    used >>>= 1;
+    unused++;
+  }
+  return bitDepth - unused;
+};
+
+/** L/R correlation of the low end (two one-pole lowpasses), where a flipped channel is unmistakable. */
+const measureLowCorrelation = (buffer: AudioBuffer): number | null => {
+  if (buffer.numberOfChannels < 2) return null;
+  const left = buffer.getChannelData(0);
+  const right = buffer.getChannelData(1);
+  const a = Math.exp((-2 * Math.PI * POLARITY_CUTOFF_HZ) / buffer.sampleRate);
+  let l1 = 0, l2 = 0, r1 = 0, r2 = 0;
+  let ll = 0, rr = 0, lr = 0;
+  for (let i = 0; i < left.length; i++) {
+    l1 = left[i] + a * (l1 - left[i]);
+    l2 = l1 + a * (l2 - l1);
+    r1 = right[i] + a * (r1 - right[i]);
+    r2 = r1 + a * (r2 - r1);
+    ll += l2 * l2;
+    rr += r2 * r2;
+    lr += l2 * r2;
+  }
+  const norm = Math.sqrt(ll * rr);
+  return norm / left.length > MIN_LOW_POWER ? lr / norm : null;
+};
+
+export const measureDelivery = async (file: Blob, buffer: AudioBuffer, loudness: LoudnessMetrics): Promise<DeliveryMeasurements> => {
+  const format = await readSourceFormat(file);
+  const { sampleRate, numberOfChannels, length } = buffer;
+
+  let clippedSamples = 0;
+  let clipRuns = 0;
+  let longestClipRun = 0;
+  let firstClip: number | null = null;
+  let worstDc = 0;
+  let firstAudible = length;
+  let lastAudible = -1;
+
+  for (let c = 0; c < numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    let run = 0;
+    let sum = 0;
+    const endRun = () => {
+      if (run >= CLIP_RUN_SAMPLES) clipRuns++;
+      longestClipRun = Math.max(longestClipRun, run);
+      run = 0;
+    };
+    for (let i = 0; i < length; i++) {
+      const abs = Math.abs(data[i]);
+      sum += data[i];
+      if (abs >= CLIP_LEVEL) {
+        clippedSamples++;
+        if (firstClip === null || i / sampleRate < firstClip) firstClip = i / sampleRate;
+        run++;
+      } else {
+        endRun();
+      }
+      if (abs > SILENCE_LEVEL) {
+        if (i < firstAudible) firstAudible = i;
+        if (i > lastAudible) lastAudible = i;
+      }
+    }
+    endRun();
+    worstDc = Math.max(worstDc, Math.abs(sum / length));
+  }
+
+  // Resampling on decode rings around full-scale runs, so sample-level checks are only exact at the stored rate
+  const sampleExact = format.sampleRate === sampleRate;
+  const effectiveBitDepth = format.lossless && !format.float && format.bitDepth && format.bitDepth <= 24 && sampleExact
+    ? measureEffectiveBitDepth(buffer, format.bitDepth)
+    : null;
+
+  const silent = lastAudible < 0;
+  return {
+    format,
+    effectiveBitDepth,
+    sampleExact,
+    duration: buffer.duration,
+    clippedSamples,
+    clipRuns,
+    longestClipRun,
+    firstClip,
+    interSampleOvers: loudness.interSampleOvers,
+    truePeak: loudness.truePeak,
+    integrated: loudness.integrated,
+    dcOffset: toDb(worstDc),
+    leadingSilence: silent ? buffer.duration : firstAudible / sampleRate,
+    trailingSilence: silent ? buffer.duration : (length - 1 - lastAudible) / sampleRate,
+    lowCorrelation: measureLowCorrelation(buffer),
+  };
+};
+
+const check = (id: string, label: string, status: QcStatus, detail: string): QcCheck => ({ id, label, status, detail });
+
+export const evaluateDelivery = (m: DeliveryMeasurements, profileId: DeliveryProfileId): DeliveryReport => {
+  const profile = getDeliveryProfile(profileId);
+  const { format } = m;
+  const checks: QcCheck[] = [];
+
+  const formatName = describeSourceFormat(format);
+  checks.push(
+    profile.lossless && !format.lossless
+      ? check('format', 'Lossless source', format.container === 'unknown' || format.container === 'mp4' ? 'warn' : 'fail', `${formatName}; deliver WAV, AIFF or FLAC`)
+      : check('format', 'Lossless source', 'pass', formatName)
+  );
+
+  const rate = format.sampleRate;
+  const rateText = rate ? `${rate / 1000}kHz` : '';
+  if (!rate) {
+    checks.push(check('sample-rate', 'Sample rate', 'warn', 'Not stored in the file header'));
+  } else if (profile.exactSampleRate && rate !== profile.exactSampleRate) {
+    checks.push(check('sample-rate', 'Sample rate', 'fail', `${rateText}; needs ${profile.exactSampleRate / 1000}kHz`));
+  } else if (rate < profile.minSampleRate) {
+    checks.push(check('sample-rate', 'Sample rate', 'fail', `${rateText}; needs at least ${profile.minSampleRate / 1000}kHz`));
+  } else {
+    checks.push(check('sample-rate', 'Sample rate', 'pass', rateText));
+  }
+
+  const depth = format.bitDepth;
+  const depthText = depth ? `${depth}-bit${format.float ? ' float' : ''}` : '';
+  if (!depth) {
+    checks.push(check('bit-depth', 'Bit depth', 'warn', 'Not stored in the file header'));
+  } else if (profile.exactBitDepth && (depth !== profile.exactBitDepth || format.float)) {
+    checks.push(check('bit-depth', 'Bit depth', 'fail', `${depthText}; dither down to ${profile.exactBitDepth}-bit`));
+  } else if (depth < profile.minBitDepth) {
+    checks.push(check('bit-depth', 'Bit depth', 'fail', `${depthText}; needs at least ${profile.minBitDepth}-bit`));
+  } else if (m.effectiveBitDepth !== null && m.effectiveBitDepth < depth) {
+    // A padded file passes the container check but not a hi-res requirement
+    const status = m.effectiveBitDepth < profile.minBitDepth ? 'fail' : 'warn';
+    checks.push(check('bit-depth', 'Bit depth', status, `${depthText} file, but only ${m.effectiveBitDepth} bits are used`));
+  } else {
+    checks.push(check('bit-depth', 'Bit depth', 'pass', depthText));
+  }
+
+  // Counted on resampled audio, clipping is a hint rather than a verdict
+  const approx = m.sampleExact ? '' : ' (approximate, decoded at a different rate than stored)';
+  if (m.clipRuns > 0) {
+    checks.push(check('clipping', 'Clipping', m.sampleExact ? 'fail' : 'warn', `${m.clipRuns} clipped run${m.clipRuns === 1 ? '' : 's'}, longest ${m.longestClipRun} samples, first at ${formatClock(m.firstClip ?? 0)}${approx}`));
+  } else if (m.clippedSamples > 0) {
+    checks.push(check('clipping', 'Clipping', 'warn', `${m.clippedSamples} isolated full-scale sample${m.clippedSamples === 1 ? '' : 's'}${approx}`));
+  } else {
+    checks.push(check('clipping', 'Clipping', 'pass', `No full-scale samples${approx}`));
+  }
+
+  checks.push(
+    m.interSampleOvers > 0
+      ? check('inter-sample', 'Inter-sample overs', profile.interSampleOverRule, `${m.interSampleOvers} over${m.interSampleOvers === 1 ? '' : 's'} above 0 dBFS after reconstruction`)
+      : check('inter-sample', 'Inter-sample overs', 'pass', 'None')
+  );
+
+  checks.push(
+    m.truePeak > profile.maxTruePeak
+      ? check('true-peak', 'True peak', profile.truePeakRule, `${formatLevel(m.truePeak)} dBTP; limit ${profile.maxTruePeak} dBTP`)
+      : check('true-peak', 'True peak', 'pass', `${formatLevel(m.truePeak)} dBTP`)
+  );
+
+  if (profile.loudness) {
+    const { target, tolerance, rule } = profile.loudness;
+    const diff = m.integrated - target;
+    let detail = `${formatLevel(m.integrated)} LUFS`;
+    if (Math.abs(diff) > tolerance) {
+      if (rule === 'fail') detail += `; needs ${target} ±${tolerance} LU`;
+      else if (diff > 0) detail += `; will be turned down ${diff.toFixed(1)} dB`;
+      else detail += `; ${(-diff).toFixed(1)} LU under ${target} LUFS, may not be turned up fully`;
+    }
+    checks.push(check('loudness', 'Loudness', Math.abs(diff) > tolerance ? rule : 'pass', detail));
+  }
+
+  if (m.dcOffset > DC_WARN_DB) {
+    checks.push(check('dc-offset', 'DC offset', m.dcOffset > DC_FAIL_DB ? 'fail' : 'warn', `${formatLevel(m.dcOffset)} dBFS`));
+  } else {
+    checks.push(check('dc-offset', 'DC offset', 'pass', m.dcOffset === -Infinity ? 'None' : `${formatLevel(m.dcOffset)} dBFS`));
+  }
+
+  const longHead = m.leadingSilence > MAX_LEADING_SILENCE;
+  const longTail = m.trailingSilence > MAX_TRAILING_SILENCE;
+  checks.push(check(
+    'silence', 'Head & tail silence', longHead || longTail ? 'warn' : 'pass',
+    `${m.leadingSilence.toFixed(2)}s head, ${m.trailingSilence.toFixed(2)}s tail${longHead || longTail ? ` (max ${MAX_LEADING_SILENCE}s / ${MAX_TRAILING_SILENCE}s)` : ''}`
+  ));
+
+  if (m.lowCorrelation === null) {
+    checks.push(check('polarity', 'Channel polarity', 'pass', 'Mono, or no low end to judge'));
+  } else if (m.lowCorrelation < POLARITY_FAIL_CORRELATION) {
+    checks.push(check('polarity', 'Channel polarity', 'fail', `Low-end correlation ${m.lowCorrelation.toFixed(2)}; one channel looks inverted`));
+  } else if (m.lowCorrelation < 0) {
+    checks.push(check('polarity', 'Channel polarity', 'warn', `Low-end correlation ${m.lowCorrelation.toFixed(2)}; check for out-of-phase bass`));
+  } else {
+    checks.push(check('polarity', 'Channel polarity', 'pass', `Low-end correlation ${m.lowCorrelation.toFixed(2)}`));
+  }
+
+  if (profile.minDuration !== undefined) {
+    checks.push(
+      m.duration < profile.minDuration
+        ? check('duration', 'Track length', 'fail', `${m.duration.toFixed(1)}s; needs at least ${profile.minDuration}s`)
+        : check('duration', 'Track length', 'pass', `${formatClock(m.duration)}`)
+    );
+  }
+
+  return { profile: profile.id, checks, passed: checks.every(c => c.status !== 'fail') };
+};
@@ -0,0 +1,91 @@
+/**
+ * RøcAudio FFT
+ * Radix-2 real-input FFT with a reusable Hann window & scratch buffers.
+ */
+
+export interface SpectrumFrame {
+  size: number;
+  binHz: (sampleRate: number) => number;
+  /** Writes size/2 linear magnitudes of samples[offset .. offset+size) into out (zero-padded past the end). */
+  magnitudes: (samples: Float32Array, offset: number, out: Float32Array) => void;
+}
+
+const fftInPlace = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  // Butterflies
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1, curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+export const createSpectrumFrame = (size: number): SpectrumFrame => {
+  if ((size & (size - 1)) !== 0) throw new Error("FFT size must be a power of two");
+
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+
+  return {
+    size,
+    binHz: (sampleRate: number) => sampleRate / size,
+    magnitudes: (samples, offset, out) => {
+      for (let i = 0; i < size; i++) {
+        const idx = offset + i;
+        re[i] = idx < samples.length ? samples[idx] * window[i] : 0;
+        im[i] = 0;
+      }
+      fftInPlace(re, im);
+      for (let k = 0; k < size / 2; k++) {
+        out[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+      }
+    },
+  };
+};
+
+/**
+ * Downmixes and resamples a buffer to mono at the given rate.
+ * The browser's resampler handles anti-aliasing for us.
+ */
+export const renderMono = async (buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> => {
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start(0);
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
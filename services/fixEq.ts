@@ -0,0 +1,89 @@
+/**
+ * RøcAudio Fix Audition
+ * Turns a suggested fix ("Cut 2-3dB around 300Hz") into a single filter the
+ * engine can insert, so the change can be heard before anyone touches the session.
+ */
+
+import { EqMove, MixIssue } from '../types';
+import { formatHz, parseFrequencyRange } from './crossover';
+
+const DEFAULT_GAIN_DB = 3;    // "Tame the low mids" with no amount
+const MAX_GAIN_DB = 12;
+const DEFAULT_PEAK_Q = 1.4;
+const SHELF_Q = Math.SQRT1_2;
+const MIN_Q = 0.3;
+const MAX_Q = 10;
+
+const CUT_WORDS = /\b(cut|dip|reduce|attenuate|pull|lower|tame|notch|scoop|de-?ess|soften|remove)/i;
+const BOOST_WORDS = /\b(boost|lift|add|raise|bring up|push|enhance|open up)/i;
+// Stereo moves: a full-mix filter would not sound like them
+const STEREO_WORDS = /\b(mono|mid[\s/-]?side|m\/s|side (?:channel|high[\s-]?pass|eq)|stereo|width|widen)/i;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const filterType = (text: string): EqMove['type'] => {
+  if (/high[\s-]?pass|\bhpf\b|low[\s-]?cut/i.test(text)) return 'highpass';
+  if (/high[\s-]?shelf/i.test(text)) return 'highshelf';
+  if (/low[\s-]?shelf/i.test(text)) return 'lowshelf';
+  return 'peaking';
+};
+
+/** Signed gain from "+1.5dB", "2-3dB" (midpoint) and the verb around it; null if the direction is unclear. */
+const parseGain = (text: string): number | null => {
+  const match = text.match(/([+\-−]?)\s*(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*db/i);
+  const amount = match
+    ? (match[3] ? (parseFloat(match[2]) + parseFloat(match[3])) / 2 : parseFloat(match[2]))
+    : DEFAULT_GAIN_DB;
+
+  let sign: number;
+  if (match?.[1] === '+') sign = 1;
+  else if (match?.[1] === '-' || match?.[1] === '−') sign = -1;
+  else if (CUT_WORDS.test(text)) sign = -1;
+  else if (BOOST_WORDS.test(text)) sign = 1;
+  else return null;
+
+  return sign * clamp(amount, 0, MAX_GAIN_DB);
+};
+
+/** Q from "Q 2" / "Q of 0.7", else wide enough to cover a stated range. */
+const parseQ = (text: string, type: EqMove['type'], range: [number, number], centre: number): number => {
+  const explicit = text.match(/\bq\s*(?:of\s*|=\s*)?(\d+(?:\.\d+)?)/i);
+  if (explicit) return clamp(parseFloat(explicit[1]), MIN_Q, MAX_Q);
+  if (type !== 'peaking') return SHELF_Q;
+  const bandwidth = range[1] - range[0];
+  // Single frequencies come back as a 1/3-octave range, which would be too narrow for a broad move
+  const isRange = range[1] / range[0] > Math.pow(2, 2 / 3) + 0.01;
+  return isRange ? clamp(centre / bandwidth, MIN_Q, MAX_Q) : DEFAULT_PEAK_Q;
+};
+
+/**
+ * The filter to audition for an issue: the model's structured move if it sent one,
+ * otherwise parsed from the fix text. Null when the fix is not a full-mix EQ move.
+ */
+export const eqMoveForIssue = (issue: MixIssue): EqMove | null => {
+  if (issue.eq) return issue.eq;
+
+  const text = issue.fix;
+  if (STEREO_WORDS.test(text)) return null;
+  const range = parseFrequencyRange(text) ?? parseFrequencyRange(issue.frequency);
+  if (!range) return null;
+
+  const type = filterType(text);
+  const centre = Math.sqrt(range[0] * range[1]);
+  if (type === 'highpass') {
+    // "High-pass around 30-40Hz": the upper end is the intended corner
+    return { type, frequency: range[1], gain: 0, q: SHELF_Q };
+  }
+
+  const gain = parseGain(text);
+  if (gain === null || gain === 0) return null;
+  return { type, frequency: centre, gain, q: parseQ(text, type, range, centre) };
+};
+
+export const describeEqMove = (move: EqMove): string => {
+  const freq = formatHz(move.frequency);
+  if (move.type === 'highpass') return `HPF ${freq}`;
+  const gain = `${move.gain > 0 ? '+' : ''}${move.gain.toFixed(1)}dB`;
+  const label = move.type === 'peaking' ? `Q${move.q.toFixed(1)}` : move.type === 'lowshelf' ? 'low shelf' : 'high shelf';
+  return `${gain} @ ${freq} ${label}`;
+};
@@ -1,15 +1,75 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AudioAnalysis } from '../types';
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { AnalysisPayload, AnalysisProvider, AudioAnalysis, ChatMessage, LoudnessMetrics, MixIssue, StereoMetrics } from '../types';
+import { AnalysisError, throwIfCancelled, toAnalysisError } from './analysisErrors';
+import { parseAnalysis, parseChatReply, parsePartialAnalysis } from './analysisValidation';
+import { describeExcerpts, formatBytes, payloadTimeToSource, prepareAnalysisPayload } from './analysisPayload';
+import { TARGET_CURVES } from './targetCurves';
 
-// Initialize RøcAudio Intelligence
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Inline requests are capped at 20MB and base64 adds a third on top of the payload
+export const MAX_INLINE_BYTES = 14 * 1024 * 1024;
 
-export const analyzeAudioContent = async (base64Audio: string, mimeType: string): Promise<AudioAnalysis> => {
+// Initialize RøcAudio Intelligence lazily so offline machines never construct a client
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
+
+const readAsBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read file for analysis."));
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Chat turns resend the same upload, so keep its base64 instead of re-reading the blob
+const base64Cache = new WeakMap<Blob, Promise<string>>();
+const uploadAsBase64 = (blob: Blob): Promise<string> => {
+  let cached = base64Cache.get(blob);
+  if (!cached) {
+    cached = readAsBase64(blob);
+    cached.catch(() => base64Cache.delete(blob));
+    base64Cache.set(blob, cached);
+  }
+  return cached;
+};
+
+/** Maps SDK / HTTP failures onto the states the UI knows how to explain. */
+const classifyError = (err: unknown): AnalysisError => {
+  if (err instanceof ApiError) {
+    const message = err.message.toLowerCase();
+    if (err.status === 429 || message.includes('resource_exhausted') || message.includes('quota')) {
+      return new AnalysisError('quota', 'The Gemini quota for this API key is used up.');
+    }
+    if (err.status === 401 || err.status === 403 || message.includes('api key')) {
+      return new AnalysisError('no-key', 'The Gemini API key was rejected.');
+    }
+    if (err.status === 413 || message.includes('payload size') || message.includes('too large')) {
+      return new AnalysisError('file-too-large', 'The file is too large to send for analysis.');
+    }
+  }
+  return toAnalysisError(err);
+};
+
+// The payload is mono, so the model gets the measured stereo image as text
+const describeStereo = (stereo: StereoMetrics | null): string => {
+  if (!stereo) return '';
+  if (stereo.isMono) return 'The source file is mono.';
+  return `Measured on the original stereo file: phase correlation ${stereo.correlation.toFixed(2)}, `
+    + `mid/side ratio ${stereo.midSideRatio.toFixed(1)} dB, ${stereo.negativePassages.length} negative-correlation passages.`;
+};
+
+/** Streams the model's JSON answer; returns the complete text, unvalidated. */
+const analyzeAudioContent = async (
+  base64Audio: string, mimeType: string, context: string, signal?: AbortSignal, onText?: (text: string) => void,
+): Promise<string> => {
   try {
     // We use the Pro model for complex reasoning about audio engineering
     const modelId = 'gemini-2.5-flash'; 
 
-    const response = await ai.models.generateContent({
+    const stream = await getClient().models.generateContentStream({
       model: modelId,
       contents: {
         parts: [
@@ -34,12 +94,17 @@ export const analyzeAudioContent = async (base64Audio: string, mimeType: string)
             5. Identify "Critical Issues" that will ruin a master (e.g., "Vocals sibilant", "Kick clashes with Bass", "Mud in 200-400Hz", "Phase issues").
             6. Suggest "Reference Tracks" this sounds similar to.
             7. Provide specific, technical "Actionable Fixes" (e.g., "Cut 3dB at 300Hz on the snare", "Compress vocals with faster attack").
+               For each fix, give "start" and "end" in seconds of THIS audio file where the problem is most audible. Omit them for whole-song issues.
+               When a fix is an EQ move, also give it as "eq": one filter (type, frequency in Hz, gain in dB, Q) that approximates it on the whole mix.
+
+            About the audio: ${context}
 
             Output purely JSON.`
           }
         ]
       },
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -48,7 +113,7 @@ export const analyzeAudioContent = async (base64Audio: string, mimeType: string)
             bpm: { type: Type.STRING },
             key: { type: Type.STRING },
             masteringScore: { type: Type.INTEGER, description: "Score 0-100 based on mix quality" },
-            suggestedEqPreset: { type: Type.STRING, description: "The ideal EQ curve profile for this genre (e.g. 'V-Shape (Trap)')" },
+            suggestedEqPreset: { type: Type.STRING, description: `The ideal EQ curve for this genre, one of ${TARGET_CURVES.map(c => c.name).join(', ')}, with the genre in parentheses (e.g. 'V-Shape (Trap)')` },
             summary: { type: Type.STRING, description: "Professional executive summary of the mix status." },
             mixBalance: {
               type: Type.OBJECT,
@@ -59,15 +124,17 @@ export const analyzeAudioContent = async (base64Audio: string, mimeType: string)
                     band: { type: Type.STRING, enum: ["Low"] },
                     status: { type: Type.STRING, enum: ["Good", "Cut", "Boost"] },
                     description: { type: Type.STRING }
-                  }
+                  },
+                  required: ["band", "status", "description"]
                 },
                 mid: { 
                     type: Type.OBJECT,
                     properties: {
-                      band: { type: Type.STRING, enum: ["Low-Mid"] }, // Schema limitation, just using string mapping
+                      band: { type: Type.STRING, enum: ["Mid"] },
                       status: { type: Type.STRING, enum: ["Good", "Cut", "Boost"] },
                       description: { type: Type.STRING }
-                    }
+                    },
+                    required: ["band", "status", "description"]
                   },
                 high: { 
                     type: Type.OBJECT,
@@ -75,9 +142,11 @@ export const analyzeAudioContent = async (base64Audio: string, mimeType: string)
                       band: { type: Type.STRING, enum: ["High"] },
                       status: { type: Type.STRING, enum: ["Good", "Cut", "Boost"] },
                       description: { type: Type.STRING }
-                    }
+                    },
+                    required: ["band", "status", "description"]
                   },
-              }
+              },
+              required: ["low", "mid", "high"]
             },
             stereoAnalysis: { type: Type.STRING, description: "Width and Phase correlation assessment" },
             dynamicAnalysis: { type: Type.STRING, description: "Transient punch and LUFS/Headroom assessment" },
@@ -90,7 +159,20 @@ export const analyzeAudioContent = async (base64Audio: string, mimeType: string)
                   severity: { type: Type.STRING, enum: ["critical", "warning", "info"] },
                   frequency: { type: Type.STRING, description: "e.g. 200Hz, 5kHz" },
                   issue: { type: Type.STRING },
-                  fix: { type: Type.STRING, description: "Specific instruction" }
+                  fix: { type: Type.STRING, description: "Specific instruction" },
+                  start: { type: Type.NUMBER, description: "Seconds into the audio where the issue is most audible" },
+                  end: { type: Type.NUMBER, description: "Seconds into the audio where that passage ends" },
+                  eq: {
+                    type: Type.OBJECT,
+                    description: "The fix as one mix-bus EQ filter, when it is an EQ move",
+                    properties: {
+                      type: { type: Type.STRING, enum: ["peaking", "lowshelf", "highshelf", "highpass"] },
+                      frequency: { type: Type.NUMBER, description: "Hz" },
+                      gain: { type: Type.NUMBER, description: "dB, negative to cut" },
+                      q: { type: Type.NUMBER }
+                    },
+                    required: ["type", "frequency", "gain", "q"]
+                  }
                 }
               }
             }
@@ -100,31 +182,160 @@ export const analyzeAudioContent = async (base64Audio: string, mimeType: string)
       }
     });
 
-    if (response.text) {
-      return JSON.parse(response.text) as AudioAnalysis;
+    // The JSON arrives in pieces; hand the growing text on so the UI can show what is already there
+    let text = '';
+    for await (const chunk of stream) {
+      throwIfCancelled(signal);
+      text += chunk.text ?? '';
+      onText?.(text);
+    }
+
+    if (text) {
+      return text;
     }
-    
-    throw new Error("No analysis data returned");
+
+    throw new AnalysisError('bad-payload', "No analysis data returned.");
 
   } catch (error) {
+    if (signal?.aborted) throw new AnalysisError('cancelled', 'The analysis was cancelled.');
     console.error("RøcAudio Analysis Error:", error);
-    // Return a dummy object so UI doesn't crash, but logged error is key
-    return {
-      genre: "Unknown",
-      bpm: "--",
-      key: "--",
-      masteringScore: 0,
-      suggestedEqPreset: "Flat / Neutral",
-      mixBalance: {
-        low: { band: 'Low', status: 'Good', description: "Analysis Failed" },
-        mid: { band: 'Low-Mid', status: 'Good', description: "Analysis Failed" },
-        high: { band: 'High', status: 'Good', description: "Analysis Failed" }
+    throw classifyError(error);
+  }
+};
+
+/** Moves the model's timestamps from payload time to original-track time, dropping any that land in a gap. */
+const mapIssueTimes = (issue: MixIssue, payload: AnalysisPayload): MixIssue => {
+  const { start, end, ...rest } = issue;
+  if (start === undefined) return rest;
+  const from = payloadTimeToSource(payload, start);
+  const to = payloadTimeToSource(payload, end ?? start);
+  return from === null ? rest : { ...rest, start: from, end: to !== null && to > from ? to : from + 5 };
+};
+
+const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+};
+
+/** The earlier analysis as text, with fixes numbered so replies can point at them. */
+const describeAnalysis = (analysis: AudioAnalysis): string => {
+  const fixes = analysis.actionableFixes.map((fix, i) => {
+    const time = fix.start !== undefined ? ` at ${formatClock(fix.start)} of the original track` : '';
+    return `${i + 1}. [${fix.severity}] ${fix.frequency}${time}: ${fix.issue}. Fix: ${fix.fix}`;
+  });
+  return [
+    `Genre ${analysis.genre}, ${analysis.bpm} BPM, key ${analysis.key}, mastering score ${analysis.masteringScore}/100, target curve ${analysis.suggestedEqPreset}.`,
+    `Summary: ${analysis.summary}`,
+    `Balance: low ${analysis.mixBalance.low.status} (${analysis.mixBalance.low.description}); `
+      + `mid ${analysis.mixBalance.mid.status} (${analysis.mixBalance.mid.description}); `
+      + `high ${analysis.mixBalance.high.status} (${analysis.mixBalance.high.description}).`,
+    `Stereo: ${analysis.stereoAnalysis}`,
+    `Dynamics: ${analysis.dynamicAnalysis}`,
+    `Actionable fixes:\n${fixes.join('\n')}`,
+  ].join('\n');
+};
+
+const chatAboutMix = async (
+  base64Audio: string, mimeType: string, context: string, analysis: AudioAnalysis, history: ChatMessage[], message: string, signal?: AbortSignal,
+): Promise<{ text: string; fixRefs: number[] }> => {
+  try {
+    const response = await getClient().models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType, data: base64Audio } },
+            { text: `This is the mix you analysed. About the audio: ${context}` },
+          ],
+        },
+        { role: 'model', parts: [{ text: 'I have the mix and my analysis in front of me. What would you like to know?' }] },
+        ...history.map(turn => ({ role: turn.role === 'user' ? 'user' : 'model', parts: [{ text: turn.text }] })),
+        { role: 'user', parts: [{ text: message }] },
+      ],
+      config: {
+        abortSignal: signal,
+        systemInstruction: `You are the Grammy-level mixing & mastering engineer who wrote the analysis below, now answering the artist's follow-up questions about this mix.
+          Answer concretely (frequencies, gains, Q, attack/release, plugin types), in a few short paragraphs at most.
+          When the answer is about one of your numbered actionable fixes, say so by number and list those numbers in "fixRefs".
+
+          Your analysis:
+          ${describeAnalysis(analysis)}`,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            reply: { type: Type.STRING },
+            fixRefs: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Numbers of the actionable fixes this reply is about" },
+          },
+          required: ["reply", "fixRefs"],
+        },
       },
-      stereoAnalysis: "Unknown",
-      dynamicAnalysis: "Unknown",
-      referenceTracks: [],
-      actionableFixes: [],
-      summary: "Could not connect to RøcAudio Intelligence. Check internet connection."
-    };
+    });
+
+    if (response.text) {
+      return parseChatReply(response.text, analysis.actionableFixes.length);
+    }
+
+    throw new AnalysisError('bad-payload', "No reply returned.");
+
+  } catch (error) {
+    if (signal?.aborted) throw new AnalysisError('cancelled', 'The question was cancelled.');
+    console.error("RøcAudio Chat Error:", error);
+    throw classifyError(error);
+  }
+};
+
+/** The compact upload both analysis and chat send, checked against the inline limit. */
+const prepareUpload = async (buffer: AudioBuffer, loudness: LoudnessMetrics | null, payload?: AnalysisPayload | null): Promise<AnalysisPayload> => {
+  if (!process.env.API_KEY) {
+    throw new AnalysisError('no-key', 'No Gemini API key is configured.');
+  }
+  const upload = payload ?? await prepareAnalysisPayload(buffer, loudness);
+  if (upload.blob.size > MAX_INLINE_BYTES) {
+    throw new AnalysisError('file-too-large', `The upload is ${formatBytes(upload.blob.size)}; the limit is ${formatBytes(MAX_INLINE_BYTES)}.`);
   }
-};
\ No newline at end of file
+  return upload;
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  name: 'RøcAudio Intelligence (Cloud)',
+  description: 'Gemini listens to a compact copy of the mix. Requires an API key and an internet connection.',
+  requiresNetwork: true,
+  isAvailable: () => Boolean(process.env.API_KEY) && navigator.onLine,
+  analyze: async ({ buffer, loudness, stereo, sections, payload, signal, onProgress }) => {
+    // Render & encode the compact copy, then read it for the inline upload
+    onProgress?.({ stage: 'preparing' });
+    const upload = await prepareUpload(buffer, loudness, payload);
+    const context = [describeExcerpts(upload), describeStereo(stereo)].filter(Boolean).join(' ');
+    throwIfCancelled(signal);
+
+    onProgress?.({ stage: 'reading' });
+    const base64 = await uploadAsBase64(upload.blob);
+    throwIfCancelled(signal);
+
+    onProgress?.({ stage: 'waiting' });
+    const text = await analyzeAudioContent(base64, upload.mimeType, context, signal, sofar => {
+      const partial = parsePartialAnalysis(sofar);
+      onProgress?.({
+        stage: 'waiting',
+        partial: { ...partial, actionableFixes: partial.actionableFixes?.map(issue => mapIssueTimes(issue, upload)) },
+      });
+    });
+    onProgress?.({ stage: 'validating' });
+    const analysis = parseAnalysis(text);
+    return {
+      ...analysis,
+      actionableFixes: analysis.actionableFixes.map(issue => mapIssueTimes(issue, upload)),
+      sections: sections ?? undefined,
+    };
+  },
+  chat: async ({ buffer, loudness, stereo, payload, analysis, history, message, signal }) => {
+    const upload = await prepareUpload(buffer, loudness, payload);
+    const context = [describeExcerpts(upload), describeStereo(stereo)].filter(Boolean).join(' ');
+    const reply = await chatAboutMix(await uploadAsBase64(upload.blob), upload.mimeType, context, analysis, history, message, signal);
+    return { role: 'engineer', text: reply.text, fixRefs: reply.fixRefs, createdAt: Date.now() };
+  },
+};
@@ -0,0 +1,143 @@
+/**
+ * RøcAudio Lookahead Limiter
+ * Brickwall peak limiter running as an AudioWorklet, loaded from an inline
+ * module so it ships without a separate asset.
+ *
+ * The audio is delayed by the lookahead L. The gain each sample needs is
+ * min-held over L + 1 samples, then averaged over L: every held value that
+ * feeds the average already covers the sample leaving the delay line, so the
+ * smoothed gain never lets it past the ceiling, and the gain ramps down over
+ * the lookahead instead of stepping.
+ */
+
+export const LIMITER_PROCESSOR = 'rocaudio-limiter';
+export const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const REPORT_EVERY_BLOCKS = 8; // ~20ms at 48kHz
+
+const PROCESSOR_SOURCE = `
+class RocAudioLimiter extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'ceiling', defaultValue: -1, minValue: -24, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 100, minValue: 1, maxValue: 2000, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor(options) {
+    super();
+    const lookahead = (options.processorOptions && options.processorOptions.lookahead) || ${LIMITER_LOOKAHEAD_SECONDS};
+    this.length = Math.max(1, Math.round(sampleRate * lookahead));
+    this.delays = [];
+    this.delayIndex = 0;
+    // Monotonic queue of (time, gain) for the running minimum
+    this.queueTime = new Float64Array(this.length + 1);
+    this.queueGain = new Float32Array(this.length + 1);
+    this.queueHead = 0;
+    this.queueSize = 0;
+    this.time = 0;
+    this.box = new Float32Array(this.length).fill(1);
+    this.boxSum = this.length;
+    this.boxIndex = 0;
+    this.gain = 1;
+    this.minGain = 1;
+    this.blocks = 0;
+  }
+
+  pushRequired(gain) {
+    const capacity = this.length + 1;
+    // Expire first: the window then holds at most L entries, so the push below never overwrites the head
+    while (this.queueSize > 0 && this.queueTime[this.queueHead] <= this.time - capacity) {
+      this.queueHead = (this.queueHead + 1) % capacity;
+      this.queueSize--;
+    }
+    while (this.queueSize > 0) {
+      const last = (this.queueHead + this.queueSize - 1) % capacity;
+      if (this.queueGain[last] < gain) break;
+      this.queueSize--;
+    }
+    const slot = (this.queueHead + this.queueSize) % capacity;
+    this.queueTime[slot] = this.time;
+    this.queueGain[slot] = gain;
+    this.queueSize++;
+    this.time++;
+    return this.queueGain[this.queueHead];
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const channels = Math.min(input.length, output.length);
+    const frames = output[0] ? output[0].length : 0;
+    const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+    const releaseCoef = Math.exp(-1000 / (parameters.release[0] * sampleRate));
+
+    while (this.delays.length < channels) this.delays.push(new Float32Array(this.length));
+
+    for (let i = 0; i < frames; i++) {
+      let peak = 0;
+      for (let c = 0; c < channels; c++) {
+        const v = Math.abs(input[c][i]);
+        if (v > peak) peak = v;
+      }
+      const held = this.pushRequired(peak > ceiling ? ceiling / peak : 1);
+
+      this.boxSum += held - this.box[this.boxIndex];
+      this.box[this.boxIndex] = held;
+      this.boxIndex = (this.boxIndex + 1) % this.length;
+      const target = Math.min(1, this.boxSum / this.length);
+
+      this.gain = target < this.gain ? target : target + (this.gain - target) * releaseCoef;
+      if (this.gain < this.minGain) this.minGain = this.gain;
+
+      for (let c = 0; c < channels; c++) {
+        const line = this.delays[c];
+        const delayed = line[this.delayIndex];
+        line[this.delayIndex] = input[c][i];
+        // Only float error in the running sum reaches this; it keeps the ceiling a hard guarantee
+        output[c][i] = Math.max(-ceiling, Math.min(ceiling, delayed * this.gain));
+      }
+      this.delayIndex = (this.delayIndex + 1) % this.length;
+    }
+
+    if (++this.blocks >= ${REPORT_EVERY_BLOCKS}) {
+      this.port.postMessage({ reduction: 20 * Math.log10(this.minGain) });
+      this.minGain = this.gain;
+      this.blocks = 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${LIMITER_PROCESSOR}', RocAudioLimiter);
+`;
+
+const modules = new WeakMap<BaseAudioContext, Promise<boolean>>();
+
+/** Registers the processor once per context. Resolves false where worklets are unavailable (e.g. insecure origins). */
+export const loadLimiterWorklet = (context: BaseAudioContext): Promise<boolean> => {
+  let loaded = modules.get(context);
+  if (!loaded) {
+    loaded = (async () => {
+      if (!context.audioWorklet) return false;
+      const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+      try {
+        await context.audioWorklet.addModule(url);
+        return true;
+      } catch {
+        return false;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    })();
+    modules.set(context, loaded);
+  }
+  return loaded;
+};
+
+/** Creates a limiter node, or null if the worklet could not be loaded. */
+export const createLimiterNode = async (context: BaseAudioContext): Promise<AudioWorkletNode | null> => {
+  if (!(await loadLimiterWorklet(context))) return null;
+  return new AudioWorkletNode(context, LIMITER_PROCESSOR, {
+    processorOptions: { lookahead: LIMITER_LOOKAHEAD_SECONDS },
+  });
+};
@@ -0,0 +1,262 @@
+/**
+ * RøcAudio Loudness Meter
+ * ITU-R BS.1770-4 / EBU R128 measurement on a decoded AudioBuffer.
+ * Integrated, short-term & momentary LUFS, loudness range and true peak.
+ */
+
+import { LoudnessMetrics } from '../types';
+
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const LRA_RELATIVE_GATE_LU = -20;
+const HOP_SECONDS = 0.1;
+const MOMENTARY_HOPS = 4;   // 400ms
+const SHORT_TERM_HOPS = 30; // 3s
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+// --- K-Weighting ---
+// Coefficients derived for any sample rate (matches the spec's 48kHz table).
+
+const kWeightingStages = (sampleRate: number): Biquad[] => {
+  // Stage 1: High shelf (head acoustics)
+  const G = 3.999843853973347;
+  const Q1 = 0.7071752369554196;
+  const fc1 = 1681.974450955533;
+  const K1 = Math.tan(Math.PI * fc1 / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  const shelfA0 = 1 + K1 / Q1 + K1 * K1;
+
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K1 / Q1 + K1 * K1) / shelfA0,
+    b1: 2 * (K1 * K1 - Vh) / shelfA0,
+    b2: (Vh - Vb * K1 / Q1 + K1 * K1) / shelfA0,
+    a1: 2 * (K1 * K1 - 1) / shelfA0,
+    a2: (1 - K1 / Q1 + K1 * K1) / shelfA0,
+  };
+
+  // Stage 2: RLB high pass
+  const Q2 = 0.5003270373238773;
+  const fc2 = 38.13547087602444;
+  const K2 = Math.tan(Math.PI * fc2 / sampleRate);
+  const hpA0 = 1 + K2 / Q2 + K2 * K2;
+
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K2 * K2 - 1) / hpA0,
+    a2: (1 - K2 / Q2 + K2 * K2) / hpA0,
+  };
+
+  return [shelf, highpass];
+};
+
+const applyBiquad = (input: Float32Array, f: Biquad): Float32Array => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x0 = input[i];
+    const y0 = f.b0 * x0 + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    out[i] = y0;
+    x2 = x1; x1 = x0;
+    y2 = y1; y1 = y0;
+  }
+  return out;
+};
+
+// Channel weights per BS.1770 (L, R, C = 1.0, Ls/Rs = 1.41, LFE excluded)
+const channelWeight = (index: number, numChannels: number): number => {
+  if (numChannels === 6) {
+    if (index === 3) return 0;
+    if (index >= 4) return 1.41;
+  }
+  return 1.0;
+};
+
+export const powerToLufs = (power: number): number => {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+};
+
+export const lufsToPower = (lufs: number): number => {
+  return Math.pow(10, (lufs + 0.691) / 10);
+};
+
+const meanPower = (powers: number[]): number => {
+  if (powers.length === 0) return 0;
+  let sum = 0;
+  for (const p of powers) sum += p;
+  return sum / powers.length;
+};
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[idx];
+};
+
+/**
+ * Sliding-window mean power over the 100ms hop sums.
+ * Returns one value per hop once the window is full.
+ */
+const windowedPowers = (hopPowers: number[], windowHops: number): number[] => {
+  const result: number[] = [];
+  let acc = 0;
+  for (let i = 0; i < hopPowers.length; i++) {
+    acc += hopPowers[i];
+    if (i >= windowHops) acc -= hopPowers[i - windowHops];
+    if (i >= windowHops - 1) result.push(acc / windowHops);
+  }
+  return result;
+};
+
+// --- True Peak ---
+
+// Windowed-sinc interpolation filter, split into OVERSAMPLE polyphase branches
+const buildInterpolationPhases = (): Float32Array[] => {
+  const length = OVERSAMPLE * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const taps = new Float32Array(length);
+  for (let n = 0; n < length; n++) {
+    const t = (n - center) / OVERSAMPLE;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    // Blackman-Harris window
+    const w = 0.35875
+      - 0.48829 * Math.cos((2 * Math.PI * n) / (length - 1))
+      + 0.14128 * Math.cos((4 * Math.PI * n) / (length - 1))
+      - 0.01168 * Math.cos((6 * Math.PI * n) / (length - 1));
+    taps[n] = sinc * w;
+  }
+
+  const phases: Float32Array[] = [];
+  for (let p = 0; p < OVERSAMPLE; p++) {
+    const phase = new Float32Array(TAPS_PER_PHASE);
+    for (let k = 0; k < TAPS_PER_PHASE; k++) {
+      phase[k] = taps[p + k * OVERSAMPLE];
+    }
+    phases.push(phase);
+  }
+  return phases;
+};
+
+/** Highest interpolated peak, and the excursions above full scale (counted once per run). */
+const channelTruePeak = (data: Float32Array, phases: Float32Array[]): { peak: number; overs: number } => {
+  let peak = 0;
+  let overs = 0;
+  let inOver = false;
+  for (let i = 0; i < data.length; i++) {
+    let over = false;
+    for (let p = 0; p < phases.length; p++) {
+      const phase = phases[p];
+      let acc = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) {
+        const idx = i - k;
+        if (idx < 0) break;
+        acc += phase[k] * data[idx];
+      }
+      const abs = acc < 0 ? -acc : acc;
+      if (abs > peak) peak = abs;
+      if (abs > 1) over = true;
+    }
+    if (over && !inOver) overs++;
+    inOver = over;
+  }
+  return { peak, overs };
+};
+
+const maxOf = (values: number[]): number => {
+  let max = -Infinity;
+  for (const v of values) if (v > max) max = v;
+  return max;
+};
+
+const toDb = (linear: number): number => {
+  return linear > 0 ? 20 * Math.log10(linear) : -Infinity;
+};
+
+// --- Public API ---
+
+export const measureLoudness = (buffer: AudioBuffer): LoudnessMetrics => {
+  const { sampleRate, numberOfChannels, length } = buffer;
+  const hopSize = Math.round(sampleRate * HOP_SECONDS);
+  const numHops = Math.floor(length / hopSize);
+  const stages = kWeightingStages(sampleRate);
+  const phases = buildInterpolationPhases();
+
+  const hopPowers = new Array<number>(numHops).fill(0);
+  let samplePeak = 0;
+  let truePeak = 0;
+  let interSampleOvers = 0;
+
+  for (let c = 0; c < numberOfChannels; c++) {
+    const raw = buffer.getChannelData(c);
+
+    for (let i = 0; i < raw.length; i++) {
+      const abs = Math.abs(raw[i]);
+      if (abs > samplePeak) samplePeak = abs;
+    }
+    const interpolated = channelTruePeak(raw, phases);
+    truePeak = Math.max(truePeak, interpolated.peak);
+    interSampleOvers += interpolated.overs;
+
+    const weight = channelWeight(c, numberOfChannels);
+    if (weight === 0) continue;
+
+    let filtered = raw;
+    for (const stage of stages) filtered = applyBiquad(filtered, stage);
+
+    for (let h = 0; h < numHops; h++) {
+      let sum = 0;
+      const start = h * hopSize;
+      for (let i = start; i < start + hopSize; i++) {
+        sum += filtered[i] * filtered[i];
+      }
+      hopPowers[h] += weight * (sum / hopSize);
+    }
+  }
+
+  const momentaryPowers = windowedPowers(hopPowers, MOMENTARY_HOPS);
+  const shortTermPowers = windowedPowers(hopPowers, SHORT_TERM_HOPS);
+
+  // Integrated: gated 400ms blocks (75% overlap)
+  const absGated = momentaryPowers.filter(p => powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  const relativeGate = powerToLufs(meanPower(absGated)) + RELATIVE_GATE_LU;
+  const relGated = absGated.filter(p => powerToLufs(p) > relativeGate);
+  const integrated = powerToLufs(meanPower(relGated));
+
+  // Loudness Range: 10th-95th percentile of gated short-term loudness
+  const stAbsGated = shortTermPowers.filter(p => powerToLufs(p) > ABSOLUTE_GATE_LUFS);
+  const stRelativeGate = powerToLufs(meanPower(stAbsGated)) + LRA_RELATIVE_GATE_LU;
+  const stGated = stAbsGated
+    .map(powerToLufs)
+    .filter(l => l > stRelativeGate)
+    .sort((a, b) => a - b);
+  const loudnessRange = stGated.length > 0 ? percentile(stGated, 95) - percentile(stGated, 10) : 0;
+
+  const momentary = momentaryPowers.map(powerToLufs);
+  const shortTerm = shortTermPowers.map(powerToLufs);
+
+  return {
+    integrated,
+    shortTermMax: maxOf(shortTerm),
+    momentaryMax: maxOf(momentary),
+    loudnessRange,
+    truePeak: toDb(Math.max(truePeak, samplePeak)),
+    samplePeak: toDb(samplePeak),
+    interSampleOvers,
+    shortTerm,
+    momentary,
+    hopSeconds: HOP_SECONDS,
+  };
+};
+
+export const formatLevel = (value: number, digits: number = 1): string => {
+  if (Number.isFinite(value)) return value.toFixed(digits);
+  return value > 0 ? '+∞' : '-∞';
+};
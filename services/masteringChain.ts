@@ -0,0 +1,104 @@
+/**
+ * RøcAudio Mastering Chain
+ * Defaults, built-in presets and loudness targets for the preview slots after
+ * the master fader. This is a monitoring chain for judging how the mix reacts
+ * to mastering, not a mastering tool: nothing here is rendered into exports.
+ */
+
+import { LoudnessMetrics, MasteringChainSettings, MasteringPreset, MasteringSlotId } from '../types';
+
+export const MASTERING_SLOTS: { id: MasteringSlotId; name: string }[] = [
+  { id: 'eq', name: 'Parametric EQ' },
+  { id: 'compressor', name: 'Bus Compressor' },
+  { id: 'limiter', name: 'Brickwall Limiter' },
+];
+
+export const MIN_DRIVE_DB = -12;
+export const MAX_DRIVE_DB = 24;
+
+/** Common delivery loudness (LUFS integrated) to push the mix towards. */
+export const LOUDNESS_TARGETS = [-14, -11, -9, -7];
+
+export const DEFAULT_MASTERING_CHAIN: MasteringChainSettings = {
+  eq: {
+    bands: [
+      { type: 'highpass', frequency: 25, gain: 0, q: Math.SQRT1_2 },
+      { type: 'lowshelf', frequency: 100, gain: 0, q: Math.SQRT1_2 },
+      { type: 'peaking', frequency: 1000, gain: 0, q: 1 },
+      { type: 'highshelf', frequency: 10000, gain: 0, q: Math.SQRT1_2 },
+    ],
+    bypass: true,
+  },
+  compressor: { threshold: -18, ratio: 2, attack: 30, release: 200, knee: 6, makeup: 0, bypass: true },
+  limiter: { drive: 0, ceiling: -1, release: 100, bypass: true },
+};
+
+export const BUILT_IN_PRESETS: MasteringPreset[] = [
+  { id: 'builtin-eq-flat', slot: 'eq', name: 'Flat', settings: { bands: DEFAULT_MASTERING_CHAIN.eq.bands }, createdAt: 0 },
+  {
+    id: 'builtin-eq-tidy-low-end', slot: 'eq', name: 'Tidy low end', createdAt: 0,
+    settings: {
+      bands: [
+        { type: 'highpass', frequency: 30, gain: 0, q: Math.SQRT1_2 },
+        { type: 'lowshelf', frequency: 90, gain: 0.5, q: Math.SQRT1_2 },
+        { type: 'peaking', frequency: 300, gain: -1.5, q: 1.4 },
+        { type: 'highshelf', frequency: 10000, gain: 0, q: Math.SQRT1_2 },
+      ],
+    },
+  },
+  {
+    id: 'builtin-eq-air', slot: 'eq', name: 'Presence & air', createdAt: 0,
+    settings: {
+      bands: [
+        { type: 'highpass', frequency: 25, gain: 0, q: Math.SQRT1_2 },
+        { type: 'lowshelf', frequency: 100, gain: 0, q: Math.SQRT1_2 },
+        { type: 'peaking', frequency: 3500, gain: 1, q: 0.8 },
+        { type: 'highshelf', frequency: 12000, gain: 1.5, q: Math.SQRT1_2 },
+      ],
+    },
+  },
+  { id: 'builtin-comp-glue', slot: 'compressor', name: 'Glue 2:1', createdAt: 0, settings: { threshold: -18, ratio: 2, attack: 30, release: 200, knee: 6, makeup: 1 } },
+  { id: 'builtin-comp-gentle', slot: 'compressor', name: 'Gentle 1.5:1', createdAt: 0, settings: { threshold: -24, ratio: 1.5, attack: 50, release: 300, knee: 10, makeup: 1 } },
+  { id: 'builtin-comp-punch', slot: 'compressor', name: 'Punch 4:1', createdAt: 0, settings: { threshold: -20, ratio: 4, attack: 10, release: 100, knee: 3, makeup: 2 } },
+  { id: 'builtin-lim-transparent', slot: 'limiter', name: 'Transparent', createdAt: 0, settings: { drive: 0, ceiling: -1, release: 200 } },
+  { id: 'builtin-lim-streaming', slot: 'limiter', name: 'Streaming (-1 dBTP)', createdAt: 0, settings: { drive: 4, ceiling: -1, release: 100 } },
+  { id: 'builtin-lim-loud', slot: 'limiter', name: 'Loud', createdAt: 0, settings: { drive: 8, ceiling: -0.3, release: 50 } },
+];
+
+/** Copy of the chain with one slot's settings replaced by a preset, keeping the slot's bypass. */
+export const applyPreset = (chain: MasteringChainSettings, preset: MasteringPreset): MasteringChainSettings => {
+  switch (preset.slot) {
+    case 'eq': return { ...chain, eq: { ...preset.settings, bypass: chain.eq.bypass } };
+    case 'compressor': return { ...chain, compressor: { ...preset.settings, bypass: chain.compressor.bypass } };
+    case 'limiter': return { ...chain, limiter: { ...preset.settings, bypass: chain.limiter.bypass } };
+  }
+};
+
+/** A new user preset holding a slot's current settings. */
+export const presetFromChain = (chain: MasteringChainSettings, slot: MasteringSlotId, name: string): MasteringPreset => {
+  const base = { id: crypto.randomUUID(), name, createdAt: Date.now() };
+  switch (slot) {
+    case 'eq': {
+      const { bypass, ...settings } = chain.eq;
+      return { ...base, slot, settings };
+    }
+    case 'compressor': {
+      const { bypass, ...settings } = chain.compressor;
+      return { ...base, slot, settings };
+    }
+    case 'limiter': {
+      const { bypass, ...settings } = chain.limiter;
+      return { ...base, slot, settings };
+    }
+  }
+};
+
+/**
+ * Limiter drive that lifts the measured integrated loudness to the target.
+ * Rough on purpose: it ignores level changes from the EQ and compressor and
+ * the loudness the limiter itself takes back.
+ */
+export const driveForTarget = (loudness: LoudnessMetrics, target: number): number => {
+  const drive = target - loudness.integrated;
+  return Math.round(Math.max(MIN_DRIVE_DB, Math.min(MAX_DRIVE_DB, drive)) * 10) / 10;
+};
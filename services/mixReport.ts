@@ -0,0 +1,327 @@
+/**
+ * RøcAudio Mix Report
+ * Turns an analysis plus the local measurements into a shareable report:
+ * self-contained print-ready HTML, Markdown for tickets, or versioned JSON.
+ */
+
+import { AnalysisProviderId, AudioAnalysis, LoudnessMetrics, MusicalMetrics, SpectrumProfile, StereoMetrics, StereoPassage } from '../types';
+import { compareToTarget, resolveTargetCurve } from './targetCurves';
+import { frequencyToPosition, SPECTRUM_GRID_HZ } from './spectrum';
+import { formatHz } from './crossover';
+import { formatLevel } from './loudness';
+import { downloadBlob } from './wavEncoder';
+
+// Bump when a field is renamed or removed; adding optional fields keeps the version
+export const REPORT_SCHEMA_VERSION = 1;
+const REPORT_SCHEMA = 'rocaudio.mix-report';
+const GENERATOR = 'RøcAudio MixCheckR';
+
+const DEVIATION_RANGE_DB = 12;
+
+export type ReportFormat = 'html' | 'markdown' | 'json';
+
+// JSON has no infinities: silence (-∞ LUFS) and mono (+∞ mid/side) are written as null
+type ReportLoudness = { [K in 'integrated' | 'shortTermMax' | 'momentaryMax' | 'loudnessRange' | 'truePeak' | 'samplePeak']: number | null } & { interSampleOvers: number };
+
+export interface MixReport {
+  schema: typeof REPORT_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;  // ISO 8601
+  generator: string;
+  file: {
+    name: string;
+    size: number;                // bytes
+    mimeType: string;
+    duration: number | null;     // seconds
+    sampleRate: number | null;
+    channels: number | null;
+    sha256: string | null;
+  };
+  engine: { id: AnalysisProviderId; name: string };
+  analysis: AudioAnalysis;
+  measurements: {
+    loudness: ReportLoudness | null;
+    stereo: { isMono: boolean; correlation: number; midSideRatio: number | null; crossover: number[]; bandWidth: number[]; negativePassages: StereoPassage[] } | null;
+    musical: MusicalMetrics | null;
+    spectrum: SpectrumProfile | null;
+  };
+  targetCurve: { name: string; deviation: SpectrumProfile } | null;  // measured - target, dB
+}
+
+export interface MixReportInput {
+  file: File;
+  buffer: AudioBuffer | null;
+  hash: string | null;
+  engine: { id: AnalysisProviderId; name: string };
+  analysis: AudioAnalysis;
+  loudness: LoudnessMetrics | null;
+  stereo: StereoMetrics | null;
+  musical: MusicalMetrics | null;
+  spectrum: SpectrumProfile | null;
+}
+
+const finite = (value: number): number | null => (Number.isFinite(value) ? value : null);
+
+export const buildMixReport = ({ file, buffer, hash, engine, analysis, loudness, stereo, musical, spectrum }: MixReportInput): MixReport => {
+  const curve = resolveTargetCurve(analysis.suggestedEqPreset);
+  return {
+    schema: REPORT_SCHEMA,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    generator: GENERATOR,
+    file: {
+      name: file.name,
+      size: file.size,
+      mimeType: file.type,
+      duration: buffer?.duration ?? null,
+      sampleRate: buffer?.sampleRate ?? null,
+      channels: buffer?.numberOfChannels ?? null,
+      sha256: hash,
+    },
+    engine,
+    analysis,
+    measurements: {
+      loudness: loudness && {
+        integrated: finite(loudness.integrated),
+        shortTermMax: finite(loudness.shortTermMax),
+        momentaryMax: finite(loudness.momentaryMax),
+        loudnessRange: finite(loudness.loudnessRange),
+        truePeak: finite(loudness.truePeak),
+        samplePeak: finite(loudness.samplePeak),
+        interSampleOvers: loudness.interSampleOvers,
+      },
+      stereo: stereo && {
+        isMono: stereo.isMono,
+        correlation: stereo.correlation,
+        midSideRatio: finite(stereo.midSideRatio),
+        crossover: stereo.crossover,
+        bandWidth: stereo.bandWidth,
+        negativePassages: stereo.negativePassages,
+      },
+      musical,
+      spectrum,
+    },
+    targetCurve: spectrum ? { name: curve.name, deviation: compareToTarget(spectrum, curve).deviation } : null,
+  };
+};
+
+// --- Shared formatting ---
+
+const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+};
+
+const formatIssueTime = (start?: number, end?: number) => {
+  if (start === undefined) return '';
+  return end !== undefined ? `${formatClock(start)}-${formatClock(end)}` : formatClock(start);
+};
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** [label, value] rows of the measured metrics, shared by the HTML and Markdown layouts. */
+const metricRows = (report: MixReport): [string, string][] => {
+  const rows: [string, string][] = [];
+  const { loudness, stereo, musical } = report.measurements;
+  if (loudness) {
+    rows.push(
+      ['Integrated loudness', `${formatLevel(loudness.integrated ?? -Infinity)} LUFS`],
+      ['Short-term max', `${formatLevel(loudness.shortTermMax ?? -Infinity)} LUFS`],
+      ['Loudness range', `${formatLevel(loudness.loudnessRange ?? 0)} LU`],
+      ['True peak', `${formatLevel(loudness.truePeak ?? -Infinity)} dBTP`],
+    );
+  }
+  if (stereo) {
+    rows.push(
+      ['Stereo correlation', stereo.isMono ? 'Mono' : stereo.correlation.toFixed(2)],
+      // Non-finite in practice means a silent side channel
+      ['Mid/side ratio', `${formatLevel(stereo.midSideRatio ?? Infinity)} dB`],
+    );
+    if (stereo.negativePassages.length > 0) {
+      rows.push(['Out-of-phase passages', stereo.negativePassages.map(p => `${formatClock(p.start)}-${formatClock(p.end)}`).join(', ')]);
+    }
+  }
+  if (musical) {
+    rows.push(
+      ['Measured tempo', musical.tempo.bpm > 0 ? `${musical.tempo.bpm} BPM (${Math.round(musical.tempo.confidence * 100)}%)` : 'n/a'],
+      ['Measured key', `${musical.key.key} (${Math.round(musical.key.confidence * 100)}%)`],
+    );
+  }
+  return rows;
+};
+
+const fileRows = (report: MixReport): [string, string][] => {
+  const { file } = report;
+  const rows: [string, string][] = [['File', file.name], ['Size', formatSize(file.size)]];
+  if (file.duration !== null) rows.push(['Duration', formatClock(file.duration)]);
+  if (file.sampleRate !== null) rows.push(['Format', `${file.sampleRate / 1000} kHz, ${file.channels === 1 ? 'mono' : `${file.channels} ch`}`]);
+  rows.push(['Engine', report.engine.name], ['Generated', new Date(report.generatedAt).toLocaleString()]);
+  if (file.sha256) rows.push(['SHA-256', file.sha256]);
+  return rows;
+};
+
+// --- JSON ---
+
+export const renderReportJson = (report: MixReport): string => JSON.stringify(report, null, 2);
+
+// --- Markdown ---
+
+/** Every third 1/3-octave band, e.g. "63Hz +1.2 dB · 125Hz -0.4 dB". */
+const octaveDeviation = (deviation: SpectrumProfile) => deviation.frequencies
+  .map((freq, i) => ({ freq, db: deviation.levels[i] }))
+  .filter((_, i) => i % 3 === 2)
+  .map(({ freq, db }) => `${formatHz(freq)} ${db > 0 ? '+' : ''}${db.toFixed(1)} dB`)
+  .join(' · ');
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const renderReportMarkdown = (report: MixReport): string => {
+  const { analysis } = report;
+  const balance = [analysis.mixBalance.low, analysis.mixBalance.mid, analysis.mixBalance.high];
+  const lines = [
+    `# Mix Report: ${report.file.name}`,
+    '',
+    ...fileRows(report).map(([label, value]) => `- **${label}:** ${value}`),
+    '',
+    `## Score: ${analysis.masteringScore}/100`,
+    '',
+    analysis.summary,
+    '',
+    `Genre: ${analysis.genre} · ${analysis.bpm} BPM · ${analysis.key} · Target curve: ${report.targetCurve?.name ?? analysis.suggestedEqPreset}`,
+    '',
+    '## Mix Balance',
+    '',
+    '| Band | Status | Notes |',
+    '| --- | --- | --- |',
+    ...balance.map(b => `| ${b.band} | ${b.status} | ${mdCell(b.description)} |`),
+    '',
+    ...(report.targetCurve ? [`Deviation from target by octave: ${octaveDeviation(report.targetCurve.deviation)}`, ''] : []),
+    '## Actionable Fixes',
+    '',
+    '| Severity | Region | Time | Issue | Fix |',
+    '| --- | --- | --- | --- | --- |',
+    ...analysis.actionableFixes.map(f => `| ${f.severity} | ${mdCell(f.frequency)} | ${formatIssueTime(f.start, f.end)} | ${mdCell(f.issue)} | ${mdCell(f.fix)} |`),
+    '',
+    '## Stereo',
+    '',
+    analysis.stereoAnalysis,
+    '',
+    '## Dynamics',
+    '',
+    analysis.dynamicAnalysis,
+  ];
+
+  const metrics = metricRows(report);
+  if (metrics.length > 0) {
+    lines.push('', '## Measurements', '', '| Metric | Value |', '| --- | --- |', ...metrics.map(([label, value]) => `| ${label} | ${mdCell(value)} |`));
+  }
+  if (analysis.referenceTracks.length > 0) {
+    lines.push('', '## References', '', ...analysis.referenceTracks.map(t => `- ${t}`));
+  }
+  lines.push('', `_Generated by ${report.generator}_`, '');
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/** Inline SVG of the deviation from the target curve, drawn like DeviationGraph. */
+const deviationSvg = (deviation: SpectrumProfile): string => {
+  const width = 700;
+  const height = 160;
+  const toX = (freq: number) => frequencyToPosition(freq) * width;
+  const toY = (db: number) => ((DEVIATION_RANGE_DB - Math.max(-DEVIATION_RANGE_DB, Math.min(DEVIATION_RANGE_DB, db))) / (2 * DEVIATION_RANGE_DB)) * height;
+  const points = deviation.frequencies.map((f, i) => `${toX(f).toFixed(1)},${toY(deviation.levels[i]).toFixed(1)}`).join(' ');
+  const grid = SPECTRUM_GRID_HZ.map(f => (
+    `<line x1="${toX(f)}" x2="${toX(f)}" y1="0" y2="${height}" stroke="#e2e8f0"/>`
+    + `<text x="${toX(f)}" y="${height + 12}" text-anchor="middle">${formatHz(f)}</text>`
+  )).join('');
+  const levels = [DEVIATION_RANGE_DB, DEVIATION_RANGE_DB / 2, 0, -DEVIATION_RANGE_DB / 2, -DEVIATION_RANGE_DB].map(db => (
+    `<line x1="0" x2="${width}" y1="${toY(db)}" y2="${toY(db)}" stroke="${db === 0 ? '#64748b' : '#e2e8f0'}"/>`
+    + `<text x="2" y="${toY(db) - 2}">${db > 0 ? `+${db}` : db} dB</text>`
+  )).join('');
+
+  return `<svg viewBox="0 0 ${width} ${height + 16}" class="curve">${grid}${levels}`
+    + `<polyline points="${points}" fill="none" stroke="#0ea5e9" stroke-width="2"/></svg>`;
+};
+
+const HTML_STYLE = `
+  body { font: 14px/1.5 -apple-system, 'Segoe UI', Roboto, sans-serif; color: #0f172a; max-width: 800px; margin: 32px auto; padding: 0 24px; }
+  h1 { font-size: 22px; margin-bottom: 4px; } h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; } th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { font-size: 11px; text-transform: uppercase; letter-spacing: .05em; color: #64748b; }
+  .meta td:first-child { color: #64748b; width: 160px; } td { word-break: break-word; }
+  .score { font-size: 40px; font-weight: 700; } .critical { color: #dc2626; } .warning { color: #ca8a04; } .info { color: #2563eb; }
+  .Good { color: #059669; } .Cut { color: #dc2626; } .Boost { color: #ca8a04; }
+  .curve { width: 100%; font: 9px ui-monospace, monospace; fill: #64748b; }
+  footer { margin-top: 32px; font-size: 11px; color: #94a3b8; }
+  @media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+const htmlTable = (rows: [string, string][], className = '') => (
+  `<table class="${className}">${rows.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+);
+
+export const renderReportHtml = (report: MixReport): string => {
+  const { analysis } = report;
+  const balance = [analysis.mixBalance.low, analysis.mixBalance.mid, analysis.mixBalance.high];
+  const metrics = metricRows(report);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Mix Report: ${escapeHtml(report.file.name)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>Mix Report: ${escapeHtml(report.file.name)}</h1>
+${htmlTable(fileRows(report), 'meta')}
+
+<h2>Score</h2>
+<p><span class="score">${analysis.masteringScore}</span>/100 · ${escapeHtml(analysis.genre)} · ${escapeHtml(String(analysis.bpm))} BPM · ${escapeHtml(analysis.key)}</p>
+<p>${escapeHtml(analysis.summary)}</p>
+
+<h2>Mix Balance</h2>
+${report.targetCurve ? `<p>Deviation from the ${escapeHtml(report.targetCurve.name)} target curve (above 0 dB = louder than target).</p>${deviationSvg(report.targetCurve.deviation)}` : ''}
+<table>
+<tr><th>Band</th><th>Status</th><th>Notes</th></tr>
+${balance.map(b => `<tr><td>${b.band}</td><td class="${b.status}">${b.status}</td><td>${escapeHtml(b.description)}</td></tr>`).join('\n')}
+</table>
+
+<h2>Actionable Fixes</h2>
+<table>
+<tr><th>Severity</th><th>Region</th><th>Time</th><th>Issue</th><th>Fix</th></tr>
+${analysis.actionableFixes.map(f => `<tr><td class="${f.severity}">${f.severity}</td><td>${escapeHtml(f.frequency)}</td><td>${formatIssueTime(f.start, f.end)}</td><td>${escapeHtml(f.issue)}</td><td>${escapeHtml(f.fix)}</td></tr>`).join('\n')}
+</table>
+
+<h2>Stereo</h2>
+<p>${escapeHtml(analysis.stereoAnalysis)}</p>
+
+<h2>Dynamics</h2>
+<p>${escapeHtml(analysis.dynamicAnalysis)}</p>
+${metrics.length > 0 ? `\n<h2>Measurements</h2>\n${htmlTable(metrics, 'meta')}` : ''}
+${analysis.referenceTracks.length > 0 ? `\n<h2>References</h2>\n<ul>${analysis.referenceTracks.map(t => `<li>${escapeHtml(t)}</li>`).join('')}</ul>` : ''}
+<footer>Generated by ${escapeHtml(report.generator)} · report schema v${report.schemaVersion}</footer>
+</body>
+</html>
+`;
+};
+
+const FORMATS: Record<ReportFormat, { extension: string; mimeType: string; render: (report: MixReport) => string }> = {
+  html: { extension: 'html', mimeType: 'text/html', render: renderReportHtml },
+  markdown: { extension: 'md', mimeType: 'text/markdown', render: renderReportMarkdown },
+  json: { extension: 'json', mimeType: 'application/json', render: renderReportJson },
+};
+
+export const downloadReport = (report: MixReport, format: ReportFormat) => {
+  const { extension, mimeType, render } = FORMATS[format];
+  const baseName = report.file.name.replace(/\.[^/.]+$/, '') || 'mix';
+  downloadBlob(new Blob([render(report)], { type: `${mimeType};charset=utf-8` }), `${baseName}_report.${extension}`);
+};
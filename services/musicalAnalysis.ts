@@ -0,0 +1,219 @@
+/**
+ * RøcAudio Tempo & Key Detection
+ * On-device estimates used to cross-check the model's BPM and key.
+ * Tempo: spectral-flux onset envelope + autocorrelation.
+ * Key: long-term chroma matched against Krumhansl-Kessler profiles.
+ */
+
+import { KeyEstimate, MusicalMetrics, TempoEstimate } from '../types';
+import { createSpectrumFrame, renderMono } from './fft';
+
+const ANALYSIS_RATE = 11025;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+
+export const PITCH_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler probe-tone profiles (index 0 = tonic)
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// --- Tempo ---
+
+const onsetEnvelope = (samples: Float32Array, frameSize: number, hop: number): Float32Array => {
+  const frame = createSpectrumFrame(frameSize);
+  const bins = frameSize / 2;
+  const numFrames = Math.max(0, Math.floor((samples.length - frameSize) / hop) + 1);
+  const envelope = new Float32Array(numFrames);
+
+  let prev = new Float32Array(bins);
+  let cur = new Float32Array(bins);
+
+  for (let f = 0; f < numFrames; f++) {
+    frame.magnitudes(samples, f * hop, cur);
+    let flux = 0;
+    for (let k = 0; k < bins; k++) {
+      // Log compression keeps quiet transients from being swamped
+      const mag = Math.log1p(100 * cur[k]);
+      const diff = mag - prev[k];
+      if (diff > 0) flux += diff;
+      cur[k] = mag;
+    }
+    envelope[f] = f === 0 ? 0 : flux;
+    const t = prev; prev = cur; cur = t;
+  }
+
+  // Remove the slowly varying local mean so only onsets remain
+  const smoothing = 16;
+  const detrended = new Float32Array(numFrames);
+  for (let f = 0; f < numFrames; f++) {
+    let sum = 0, count = 0;
+    for (let k = Math.max(0, f - smoothing); k <= Math.min(numFrames - 1, f + smoothing); k++) {
+      sum += envelope[k];
+      count++;
+    }
+    detrended[f] = Math.max(0, envelope[f] - sum / count);
+  }
+  return detrended;
+};
+
+export const detectTempo = (samples: Float32Array, sampleRate: number): TempoEstimate => {
+  const hop = 256;
+  const envelope = onsetEnvelope(samples, 1024, hop);
+  const frameRate = sampleRate / hop;
+
+  const minLag = Math.floor((60 * frameRate) / MAX_BPM);
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+  if (envelope.length <= maxLag * 2) return { bpm: 0, confidence: 0 };
+
+  const acf = new Float32Array(maxLag + 2);
+  for (let lag = 0; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    acf[lag] = sum / (envelope.length - lag);
+  }
+  if (acf[0] <= 0) return { bpm: 0, confidence: 0 };
+
+  // Weight lags with a log-Gaussian tempo prior centred on 120 BPM
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    const weight = Math.exp(-0.5 * octaves * octaves);
+    const score = acf[lag] * weight;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation for sub-frame lag precision
+  const a = acf[bestLag - 1], b = acf[bestLag], c = acf[bestLag + 1];
+  const denom = a - 2 * b + c;
+  const offset = denom !== 0 ? clamp01(0.5 + (0.5 * (a - c)) / denom) - 0.5 : 0;
+  const bpm = (60 * frameRate) / (bestLag + offset);
+
+  // Periodicity strength relative to the mean level across the search range
+  let mean = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) mean += acf[lag];
+  mean /= maxLag - minLag + 1;
+  const confidence = clamp01((acf[bestLag] - mean) / (acf[0] - mean));
+
+  return { bpm: Math.round(bpm * 10) / 10, confidence };
+};
+
+// --- Key ---
+
+const pearson = (x: number[], y: number[]): number => {
+  const n = x.length;
+  const mx = x.reduce((s, v) => s + v, 0) / n;
+  const my = y.reduce((s, v) => s + v, 0) / n;
+  let num = 0, dx = 0, dy = 0;
+  for (let i = 0; i < n; i++) {
+    num += (x[i] - mx) * (y[i] - my);
+    dx += (x[i] - mx) ** 2;
+    dy += (y[i] - my) ** 2;
+  }
+  return dx > 0 && dy > 0 ? num / Math.sqrt(dx * dy) : 0;
+};
+
+export const detectKey = (samples: Float32Array, sampleRate: number): KeyEstimate => {
+  const frameSize = 4096;
+  const hop = 2048;
+  const frame = createSpectrumFrame(frameSize);
+  const mags = new Float32Array(frameSize / 2);
+  const binHz = frame.binHz(sampleRate);
+
+  // Precompute pitch class per bin (C2 .. C7)
+  const binPitch = new Int8Array(frameSize / 2).fill(-1);
+  for (let k = 1; k < frameSize / 2; k++) {
+    const freq = k * binHz;
+    if (freq < 65 || freq > 2100) continue;
+    const midi = Math.round(69 + 12 * Math.log2(freq / 440));
+    binPitch[k] = ((midi % 12) + 12) % 12;
+  }
+
+  const chroma = new Array(12).fill(0);
+  for (let offset = 0; offset + frameSize <= samples.length; offset += hop) {
+    frame.magnitudes(samples, offset, mags);
+    for (let k = 0; k < mags.length; k++) {
+      const pc = binPitch[k];
+      if (pc >= 0) chroma[pc] += mags[k] * mags[k];
+    }
+  }
+
+  const candidates: { tonic: number; mode: 'major' | 'minor'; score: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = chroma.slice(tonic).concat(chroma.slice(0, tonic));
+    candidates.push({ tonic, mode: 'major', score: pearson(rotated, MAJOR_PROFILE) });
+    candidates.push({ tonic, mode: 'minor', score: pearson(rotated, MINOR_PROFILE) });
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = candidates;
+  // Half from profile fit, half from how clearly it beats the runner-up
+  const confidence = clamp01(0.5 * clamp01(best.score) + 0.5 * clamp01((best.score - runnerUp.score) / 0.15));
+
+  return {
+    key: `${PITCH_NAMES[best.tonic]} ${best.mode}`,
+    tonic: best.tonic,
+    mode: best.mode,
+    confidence,
+  };
+};
+
+export const analyzeMusical = async (buffer: AudioBuffer): Promise<MusicalMetrics> => {
+  const mono = await renderMono(buffer, ANALYSIS_RATE);
+  return {
+    tempo: detectTempo(mono, ANALYSIS_RATE),
+    key: detectKey(mono, ANALYSIS_RATE),
+  };
+};
+
+// --- Cross-checking against the model ---
+
+export type BpmAgreement = 'match' | 'half-double' | 'mismatch' | 'unknown';
+export type KeyAgreement = 'match' | 'relative' | 'mismatch' | 'unknown';
+
+export const compareBpm = (modelBpm: string | number, detected: TempoEstimate): BpmAgreement => {
+  const model = typeof modelBpm === 'number' ? modelBpm : parseFloat(modelBpm);
+  if (!Number.isFinite(model) || model <= 0 || detected.bpm <= 0) return 'unknown';
+
+  const within = (a: number, b: number) => Math.abs(a - b) / b <= 0.03;
+  if (within(model, detected.bpm)) return 'match';
+  if (within(model, detected.bpm * 2) || within(model, detected.bpm / 2)) return 'half-double';
+  return 'mismatch';
+};
+
+const FLAT_TO_SHARP: Record<string, string> = { Db: 'C#', Eb: 'D#', Gb: 'F#', Ab: 'G#', Bb: 'A#', Cb: 'B', Fb: 'E' };
+
+/** Parses "F# minor", "Gbm", "A min", "C Major" etc. into pitch class & mode. */
+export const parseKey = (key: string): { tonic: number; mode: 'major' | 'minor' } | null => {
+  const match = key.trim().match(/^([A-Ga-g])\s*([#♯b♭]?)\s*(.*)$/);
+  if (!match) return null;
+
+  const accidental = match[2].replace('♯', '#').replace('♭', 'b');
+  let name = match[1].toUpperCase() + accidental;
+  if (FLAT_TO_SHARP[name]) name = FLAT_TO_SHARP[name];
+  const tonic = name === 'E#' ? 5 : name === 'B#' ? 0 : PITCH_NAMES.indexOf(name);
+  if (tonic < 0) return null;
+
+  const rest = match[3].toLowerCase();
+  const mode = rest.startsWith('m') && !rest.startsWith('maj') ? 'minor' : 'major';
+  return { tonic, mode };
+};
+
+export const compareKey = (modelKey: string, detected: KeyEstimate): KeyAgreement => {
+  const model = parseKey(modelKey);
+  if (!model) return 'unknown';
+  if (model.tonic === detected.tonic && model.mode === detected.mode) return 'match';
+
+  // Relative major/minor share the same notes and are easy to confuse
+  const relativeTonic = detected.mode === 'major' ? (detected.tonic + 9) % 12 : (detected.tonic + 3) % 12;
+  if (model.mode !== detected.mode && model.tonic === relativeTonic) return 'relative';
+  return 'mismatch';
+};
@@ -0,0 +1,52 @@
+/**
+ * RøcAudio Loudness Normalization
+ * The playback gain each streaming platform applies, from the track's measured
+ * integrated loudness and true peak. Loud masters are turned down everywhere;
+ * what happens to quiet ones differs per platform.
+ */
+
+import { LoudnessMetrics, NormalizationPlatformId, PlaybackNormalization } from '../types';
+
+export interface NormalizationPlatform {
+  id: NormalizationPlatformId;
+  name: string;
+  target: number;   // LUFS integrated
+  // How quieter tracks are turned up: not at all, only as far as peak headroom allows, or fully into a limiter
+  boost: 'none' | 'headroom' | 'limiter';
+  ceiling: number;  // dBTP a headroom-limited boost may reach
+  note: string;
+}
+
+export const NORMALIZATION_PLATFORMS: NormalizationPlatform[] = [
+  { id: 'spotify', name: 'Spotify', target: -14, boost: 'headroom', ceiling: -1, note: 'Normal setting. Quiet tracks are raised only until they peak at -1 dBTP.' },
+  { id: 'spotify-loud', name: 'Spotify Loud', target: -11, boost: 'limiter', ceiling: -1, note: 'Loud setting. Quiet tracks are raised into a -1 dB limiter.' },
+  { id: 'apple', name: 'Apple Music', target: -16, boost: 'headroom', ceiling: -1, note: 'Sound Check. Quiet tracks are raised only as far as their peaks allow.' },
+  { id: 'youtube', name: 'YouTube', target: -14, boost: 'none', ceiling: 0, note: 'Loud tracks are turned down; quiet ones are left alone.' },
+  { id: 'tidal', name: 'Tidal', target: -14, boost: 'none', ceiling: 0, note: 'Loud tracks are turned down; quiet ones are left alone.' },
+];
+
+export const getNormalizationPlatform = (id: NormalizationPlatformId): NormalizationPlatform => {
+  return NORMALIZATION_PLATFORMS.find(platform => platform.id === id) ?? NORMALIZATION_PLATFORMS[0];
+};
+
+/** Gain in dB the platform would apply to a track with these measurements. */
+export const normalizationGain = (loudness: LoudnessMetrics, platform: NormalizationPlatform): number => {
+  const gain = platform.target - loudness.integrated;
+  if (!Number.isFinite(gain)) return 0; // Silence
+  if (gain <= 0) return gain;
+  switch (platform.boost) {
+    case 'none': return 0;
+    case 'headroom': return Math.max(0, Math.min(gain, platform.ceiling - loudness.truePeak));
+    case 'limiter': return gain;
+  }
+};
+
+export const buildNormalization = (id: NormalizationPlatformId, mix: LoudnessMetrics, reference: LoudnessMetrics | null): PlaybackNormalization => {
+  const platform = getNormalizationPlatform(id);
+  return {
+    platform: id,
+    mixGain: normalizationGain(mix, platform),
+    referenceGain: reference ? normalizationGain(reference, platform) : null,
+    limiter: platform.boost === 'limiter',
+  };
+};
@@ -0,0 +1,326 @@
+/**
+ * RøcAudio Offline Diagnosis
+ * Rule-based AnalysisProvider built only from local measurements (loudness, spectrum, stereo, clipping).
+ * No network, no randomness: the same file always yields the same report.
+ */
+
+import { AnalysisInput, AnalysisProvider, AudioAnalysis, FrequencyBandAnalysis, LoudnessMetrics, MixIssue, SongSection, SpectrumProfile, StereoMetrics } from '../types';
+import { measureLoudness, formatLevel } from './loudness';
+import { alignedDifference, bandMean, computeLongTermSpectrum } from './spectrum';
+import { analyzeStereo } from './stereo';
+import { analyzeMusical } from './musicalAnalysis';
+import { compareToTarget, TARGET_CURVES, TargetCurve } from './targetCurves';
+import { DEFAULT_CROSSOVER, formatHz } from './crossover';
+import { detectSections } from './sections';
+import { throwIfCancelled } from './analysisErrors';
+
+const CLIP_LEVEL = 0.9999;        // |sample| at or above this counts as full scale
+const CLIP_RUN = 3;               // consecutive full-scale samples that make one clip
+const BALANCE_TOLERANCE_DB = 3;   // band average deviation before we call Cut/Boost
+const REGION_TOLERANCE_DB = 3.5;  // problem-zone deviation before we raise a fix
+const FIT_LOW_HZ = 40;
+const FIT_HIGH_HZ = 16000;
+const CLIP_PREROLL_SECONDS = 1;   // Audition window around the first clip
+const CLIP_POSTROLL_SECONDS = 2;
+
+const SEVERITY_PENALTY: Record<MixIssue['severity'], number> = { critical: 15, warning: 7, info: 2 };
+
+interface ProblemRegion {
+  lowHz: number;
+  highHz: number;
+  excess?: { severity: MixIssue['severity']; issue: string; fix: string };
+  lack?: { severity: MixIssue['severity']; issue: string; fix: string };
+}
+
+// Zones where a deviation from the target usually has a known cause
+const PROBLEM_REGIONS: ProblemRegion[] = [
+  {
+    lowHz: 20, highHz: 50,
+    excess: { severity: 'warning', issue: 'Sub rumble is eating headroom', fix: 'High-pass everything except kick and bass around 30-40Hz.' },
+  },
+  {
+    lowHz: 50, highHz: 125,
+    excess: { severity: 'warning', issue: 'Low end is overpowering the mix', fix: 'Pull the bass bus down 2dB or tighten kick/bass with sidechain compression.' },
+    lack: { severity: 'warning', issue: 'Thin low end', fix: 'Add a low shelf on the bass around 80Hz or bring up the kick.' },
+  },
+  {
+    lowHz: 200, highHz: 500,
+    excess: { severity: 'warning', issue: 'Mud / boxiness in the low mids', fix: 'Cut 2-3dB around 300Hz on guitars, keys and pads rather than on the master.' },
+  },
+  {
+    lowHz: 2000, highHz: 5000,
+    excess: { severity: 'warning', issue: 'Harsh upper mids', fix: 'Dip 1.5-3dB around 3kHz on vocals and distorted sources, or use a dynamic EQ.' },
+    lack: { severity: 'info', issue: 'Recessed presence range', fix: 'Lift vocals or lead elements 1-2dB around 3kHz.' },
+  },
+  {
+    lowHz: 6000, highHz: 12000,
+    excess: { severity: 'warning', issue: 'Sibilant / brittle top end', fix: 'De-ess vocals around 6-8kHz and soften bright cymbals.' },
+    lack: { severity: 'info', issue: 'Dull top end', fix: 'Add a gentle high shelf (+1.5dB at 10kHz) on the mix bus or key elements.' },
+  },
+];
+
+interface ClipReport {
+  count: number;
+  first: number; // seconds, earliest clip on any channel
+}
+
+/** Counts runs of consecutive full-scale samples across all channels. */
+const countClips = (buffer: AudioBuffer): ClipReport => {
+  let count = 0;
+  let first = Infinity;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    let run = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (Math.abs(data[i]) >= CLIP_LEVEL) {
+        run++;
+        if (run === CLIP_RUN) {
+          count++;
+          first = Math.min(first, (i - CLIP_RUN + 1) / buffer.sampleRate);
+        }
+      } else {
+        run = 0;
+      }
+    }
+  }
+  return { count, first };
+};
+
+/** The target the measured balance is closest to, by RMS deviation. */
+const closestTarget = (spectrum: SpectrumProfile): TargetCurve => {
+  let best = TARGET_CURVES[0];
+  let bestError = Infinity;
+  TARGET_CURVES.forEach(curve => {
+    const { deviation } = compareToTarget(spectrum, curve);
+    let sum = 0;
+    let count = 0;
+    deviation.frequencies.forEach((freq, i) => {
+      if (freq < FIT_LOW_HZ || freq > FIT_HIGH_HZ) return;
+      sum += deviation.levels[i] * deviation.levels[i];
+      count++;
+    });
+    const error = count > 0 ? Math.sqrt(sum / count) : Infinity;
+    if (error < bestError) {
+      bestError = error;
+      best = curve;
+    }
+  });
+  return best;
+};
+
+const signed = (db: number) => `${db >= 0 ? '+' : ''}${db.toFixed(1)}dB`;
+
+const bandBalance = (
+  band: FrequencyBandAnalysis['band'],
+  deviation: SpectrumProfile,
+  lowHz: number,
+  highHz: number,
+  targetName: string,
+): FrequencyBandAnalysis => {
+  const db = bandMean(deviation, lowHz, highHz);
+  const status = db > BALANCE_TOLERANCE_DB ? 'Cut' : db < -BALANCE_TOLERANCE_DB ? 'Boost' : 'Good';
+  return {
+    band,
+    status,
+    description: `${formatHz(lowHz)} - ${formatHz(highHz)} sits ${signed(db)} against the ${targetName} target.`,
+  };
+};
+
+/**
+ * Song-wide deviations from the target, each stamped with the section
+ * where the same region stands out most against the rest of the song.
+ */
+const spectralFixes = (deviation: SpectrumProfile, sections: SongSection[], sectionDeviations: SpectrumProfile[]): MixIssue[] => {
+  const fixes: MixIssue[] = [];
+  PROBLEM_REGIONS.forEach(region => {
+    const db = bandMean(deviation, region.lowHz, region.highHz);
+    const rule = db > REGION_TOLERANCE_DB ? region.excess : db < -REGION_TOLERANCE_DB ? region.lack : undefined;
+    if (!rule) return;
+
+    const direction = db > 0 ? 1 : -1;
+    let worst = -1;
+    let worstDb = -Infinity;
+    sectionDeviations.forEach((d, i) => {
+      const sectionDb = direction * bandMean(d, region.lowHz, region.highHz);
+      if (sectionDb > worstDb) {
+        worstDb = sectionDb;
+        worst = i;
+      }
+    });
+
+    fixes.push({
+      severity: rule.severity,
+      frequency: `${formatHz(region.lowHz)}-${formatHz(region.highHz)}`,
+      issue: `${rule.issue} (${signed(db)} vs target${worst >= 0 ? `, worst in ${sections[worst].label}` : ''})`,
+      fix: rule.fix,
+      ...(worst >= 0 ? { start: sections[worst].start, end: sections[worst].end } : {}),
+    });
+  });
+  return fixes;
+};
+
+const dynamicsFixes = (loudness: LoudnessMetrics, clips: ClipReport): MixIssue[] => {
+  const fixes: MixIssue[] = [];
+
+  if (clips.count > 0) {
+    fixes.push({
+      severity: 'critical',
+      frequency: 'Full band',
+      issue: `${clips.count} clipped section${clips.count === 1 ? '' : 's'} at digital full scale`,
+      fix: 'Lower the mix bus or remove the limiter and re-bounce; clipping cannot be undone in mastering.',
+      start: Math.max(0, clips.first - CLIP_PREROLL_SECONDS),
+      end: clips.first + CLIP_POSTROLL_SECONDS,
+    });
+  }
+  if (loudness.truePeak > -1) {
+    fixes.push({
+      severity: 'warning',
+      frequency: 'Full band',
+      issue: `True peak at ${formatLevel(loudness.truePeak)} dBTP leaves no headroom`,
+      fix: 'Bounce with peaks around -3 to -6 dBTP so the mastering chain has room to work.',
+    });
+  }
+  if (loudness.integrated > -10) {
+    fixes.push({
+      severity: 'warning',
+      frequency: 'Full band',
+      issue: `Mix is already loud (${formatLevel(loudness.integrated)} LUFS)`,
+      fix: 'Bypass mix-bus limiting for the mastering bounce; aim for roughly -18 to -14 LUFS.',
+    });
+  } else if (loudness.integrated < -30) {
+    fixes.push({
+      severity: 'info',
+      frequency: 'Full band',
+      issue: `Very low level (${formatLevel(loudness.integrated)} LUFS)`,
+      fix: 'Raise the mix bus so peaks sit around -6 dBFS to keep the noise floor out of the master.',
+    });
+  }
+  if (Number.isFinite(loudness.loudnessRange) && loudness.loudnessRange < 3) {
+    fixes.push({
+      severity: 'warning',
+      frequency: 'Full band',
+      issue: `Very narrow loudness range (${formatLevel(loudness.loudnessRange)} LU)`,
+      fix: 'Ease off bus compression so sections can breathe; mastering will squash it further.',
+    });
+  }
+  return fixes;
+};
+
+const stereoFixes = (stereo: StereoMetrics): MixIssue[] => {
+  if (stereo.isMono) return [];
+  const fixes: MixIssue[] = [];
+
+  if (stereo.correlation < 0) {
+    fixes.push({
+      severity: 'critical',
+      frequency: 'Full band',
+      issue: `Overall phase correlation is negative (${stereo.correlation.toFixed(2)})`,
+      fix: 'Check for a polarity-flipped channel or over-widened bus; the mix will collapse in mono.',
+    });
+  } else if (stereo.negativePassages.length > 0) {
+    const worst = stereo.negativePassages.reduce((a, b) => (b.minCorrelation < a.minCorrelation ? b : a));
+    fixes.push({
+      severity: 'warning',
+      frequency: 'Full band',
+      issue: `${stereo.negativePassages.length} passage${stereo.negativePassages.length === 1 ? '' : 's'} with negative correlation`,
+      fix: 'Solo the flagged sections and look for stereo wideners, chorus or mis-aligned doubles.',
+      start: worst.start,
+      end: worst.end,
+    });
+  }
+  if (stereo.bandWidth[0] > 0.2) {
+    fixes.push({
+      severity: 'warning',
+      frequency: `< ${formatHz(stereo.crossover[0])}`,
+      issue: 'Low end is spread wide in the stereo field',
+      fix: `Mono the content below ${formatHz(Math.min(150, stereo.crossover[0]))} (side high-pass or a bass mono utility).`,
+    });
+  }
+  if (stereo.midSideRatio < 3) {
+    fixes.push({
+      severity: 'info',
+      frequency: 'Full band',
+      issue: `Side channel nearly as loud as mid (M/S ${stereo.midSideRatio.toFixed(1)}dB)`,
+      fix: 'Check mono compatibility and bring key elements (kick, bass, vocal) back to the centre.',
+    });
+  }
+  return fixes;
+};
+
+const describeStereo = (stereo: StereoMetrics): string => {
+  if (stereo.isMono) return 'Mono file: no stereo image to assess.';
+  const passages = stereo.negativePassages.length;
+  return `Correlation ${stereo.correlation.toFixed(2)}, mid/side ${stereo.midSideRatio.toFixed(1)}dB. `
+    + `Low band side share ${(stereo.bandWidth[0] * 100).toFixed(0)}%. `
+    + (passages > 0 ? `${passages} negative-correlation passage${passages === 1 ? '' : 's'}.` : 'No negative-correlation passages.');
+};
+
+const describeDynamics = (loudness: LoudnessMetrics, clips: ClipReport): string => {
+  const plr = loudness.truePeak - loudness.integrated;
+  return `Integrated ${formatLevel(loudness.integrated)} LUFS, LRA ${formatLevel(loudness.loudnessRange)} LU, `
+    + `true peak ${formatLevel(loudness.truePeak)} dBTP (PLR ${formatLevel(plr)} dB). `
+    + (clips.count > 0 ? `${clips.count} clipped section${clips.count === 1 ? '' : 's'}.` : 'No clipping detected.');
+};
+
+export const analyzeOffline = async (input: AnalysisInput): Promise<AudioAnalysis> => {
+  const { buffer, signal, onProgress } = input;
+  // Nothing is uploaded, so the run is reading (measuring) then validating (applying the rules)
+  onProgress?.({ stage: 'reading' });
+  const loudness = input.loudness ?? measureLoudness(buffer);
+  const spectrum = input.spectrum ?? computeLongTermSpectrum(buffer);
+  const stereo = input.stereo ?? await analyzeStereo(buffer, DEFAULT_CROSSOVER);
+  throwIfCancelled(signal);
+  const musical = input.musical ?? await analyzeMusical(buffer);
+  throwIfCancelled(signal);
+  const sections = input.sections ?? await detectSections(buffer, spectrum);
+  throwIfCancelled(signal);
+  const clips = countClips(buffer);
+
+  onProgress?.({ stage: 'validating' });
+
+  const target = closestTarget(spectrum);
+  const { deviation } = compareToTarget(spectrum, target);
+  const [lowSplit, highSplit] = DEFAULT_CROSSOVER;
+  const sectionDeviations = sections.map(s => alignedDifference(computeLongTermSpectrum(buffer, s.start, s.end), spectrum));
+
+  const actionableFixes = [
+    ...dynamicsFixes(loudness, clips),
+    ...stereoFixes(stereo),
+    ...spectralFixes(deviation, sections, sectionDeviations),
+  ];
+
+  const penalty = actionableFixes.reduce((sum, fix) => sum + SEVERITY_PENALTY[fix.severity], 0);
+  const masteringScore = Math.max(0, Math.min(100, 100 - penalty));
+  const critical = actionableFixes.filter(f => f.severity === 'critical').length;
+  const warnings = actionableFixes.filter(f => f.severity === 'warning').length;
+
+  return {
+    genre: 'Not classified (offline)',
+    bpm: musical.tempo.bpm > 0 ? Math.round(musical.tempo.bpm) : '--',
+    key: musical.key.confidence > 0 ? musical.key.key : '--',
+    masteringScore,
+    suggestedEqPreset: target.name,
+    mixBalance: {
+      low: bandBalance('Low', deviation, 20, lowSplit, target.name),
+      mid: bandBalance('Mid', deviation, lowSplit, highSplit, target.name),
+      high: bandBalance('High', deviation, highSplit, 20000, target.name),
+    },
+    stereoAnalysis: describeStereo(stereo),
+    dynamicAnalysis: describeDynamics(loudness, clips),
+    referenceTracks: [],
+    actionableFixes,
+    sections,
+    summary: `Measured locally against the closest target curve (${target.name}). `
+      + `${critical} critical issue${critical === 1 ? '' : 's'} and ${warnings} warning${warnings === 1 ? '' : 's'} found. `
+      + 'Genre and reference suggestions need the cloud provider.',
+  };
+};
+
+export const offlineProvider: AnalysisProvider = {
+  id: 'offline',
+  name: 'Offline DSP',
+  description: 'Rule-based diagnosis from local measurements. Nothing leaves this machine.',
+  requiresNetwork: false,
+  isAvailable: () => true,
+  analyze: analyzeOffline,
+};
@@ -0,0 +1,171 @@
+/**
+ * RøcAudio Project Library
+ * IndexedDB store of songs (projects) and their mix revisions, so analysis results,
+ * measurements and console settings survive a reload. Also keeps the user's
+ * mastering-chain presets.
+ */
+
+import { MasteringPreset, Project, Revision } from '../types';
+
+const DB_NAME = 'rocaudio-library';
+const DB_VERSION = 2;
+const PROJECTS = 'projects';
+const REVISIONS = 'revisions';
+const PRESETS = 'presets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) {
+          db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(REVISIONS)) {
+          const revisions = db.createObjectStore(REVISIONS, { keyPath: 'hash' });
+          revisions.createIndex('projectId', 'projectId');
+        }
+        if (!db.objectStoreNames.contains(PRESETS)) {
+          db.createObjectStore(PRESETS, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const store = async (name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+/** Hex SHA-256 of the file contents; identical bounces map to the same revision. */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/** Song name from a bounce name: drops the extension and trailing version tags like "_v3" or " mix 2". */
+export const projectNameFromFile = (fileName: string): string => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const name = base.replace(/[\s_-]*(v|rev|mix|version)[\s_-]?\d+$/i, '').trim();
+  return name || base;
+};
+
+// --- Projects ---
+
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await promisify((await store(PROJECTS, 'readonly')).getAll() as IDBRequest<Project[]>);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const createProject = async (name: string): Promise<Project> => {
+  const now = Date.now();
+  const project: Project = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+  await promisify((await store(PROJECTS, 'readwrite')).put(project));
+  return project;
+};
+
+// Lookups in flight by name, so concurrent uploads of one song can't each create a project
+const pendingProjects = new Map<string, Promise<Project>>();
+
+/** The project a bounce belongs to by song name, created if the library has none yet. */
+export const findOrCreateProject = (name: string): Promise<Project> => {
+  let pending = pendingProjects.get(name);
+  if (!pending) {
+    pending = (async () => {
+      const existing = (await listProjects()).find(p => p.name === name);
+      return existing ?? createProject(name);
+    })();
+    pendingProjects.set(name, pending);
+    pending.finally(() => pendingProjects.delete(name)).catch(() => {});
+  }
+  return pending;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const projects = await store(PROJECTS, 'readwrite');
+  const project = await promisify(projects.get(id) as IDBRequest<Project | undefined>);
+  if (project) await promisify(projects.put({ ...project, name }));
+};
+
+const touchProject = async (id: string): Promise<void> => {
+  const projects = await store(PROJECTS, 'readwrite');
+  const project = await promisify(projects.get(id) as IDBRequest<Project | undefined>);
+  if (project) await promisify(projects.put({ ...project, updatedAt: Date.now() }));
+};
+
+/** Removes the project and every revision in it. */
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, REVISIONS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  const keys = await promisify(tx.objectStore(REVISIONS).index('projectId').getAllKeys(id));
+  keys.forEach(key => tx.objectStore(REVISIONS).delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Revisions ---
+
+/** Revisions of a project, oldest first (the upload order is the revision number). */
+export const listRevisions = async (projectId: string): Promise<Revision[]> => {
+  const index = (await store(REVISIONS, 'readonly')).index('projectId');
+  const revisions = await promisify(index.getAll(projectId) as IDBRequest<Revision[]>);
+  return revisions.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getRevision = async (hash: string): Promise<Revision | null> => {
+  const revision = await promisify((await store(REVISIONS, 'readonly')).get(hash) as IDBRequest<Revision | undefined>);
+  return revision ?? null;
+};
+
+export const saveRevision = async (revision: Revision): Promise<void> => {
+  await promisify((await store(REVISIONS, 'readwrite')).put(revision));
+  await touchProject(revision.projectId);
+};
+
+/** Merges changes into a stored revision. No-op if it has been deleted meanwhile. */
+export const updateRevision = async (hash: string, changes: Partial<Omit<Revision, 'hash'>>): Promise<void> => {
+  const revisions = await store(REVISIONS, 'readwrite');
+  const revision = await promisify(revisions.get(hash) as IDBRequest<Revision | undefined>);
+  if (!revision) return;
+  await promisify(revisions.put({ ...revision, ...changes }));
+};
+
+export const deleteRevision = async (hash: string): Promise<void> => {
+  await promisify((await store(REVISIONS, 'readwrite')).delete(hash));
+};
+
+// --- Mastering Presets ---
+
+/** User-saved presets, oldest first. Built-ins live in masteringChain.ts. */
+export const listPresets = async (): Promise<MasteringPreset[]> => {
+  const presets = await promisify((await store(PRESETS, 'readonly')).getAll() as IDBRequest<MasteringPreset[]>);
+  return presets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const savePreset = async (preset: MasteringPreset): Promise<void> => {
+  await promisify((await store(PRESETS, 'readwrite')).put(preset));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await promisify((await store(PRESETS, 'readwrite')).delete(id));
+};
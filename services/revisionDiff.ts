@@ -0,0 +1,136 @@
+/**
+ * RøcAudio Revision Diff
+ * Compares two analysed mix revisions: score, band balance, which fixes were
+ * resolved / persist / are new, and the measured loudness & tonal changes.
+ */
+
+import { FrequencyBandAnalysis, MixIssue, Revision, SpectrumProfile } from '../types';
+import { alignedDifference } from './spectrum';
+import { parseFrequencyRange } from './crossover';
+
+const MIN_TEXT_SIMILARITY = 0.25;
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'in', 'on', 'at', 'to', 'is', 'are', 'too', 'with', 'vs', 'target']);
+
+export interface BalanceChange {
+  band: FrequencyBandAnalysis['band'];
+  before: FrequencyBandAnalysis['status'];
+  after: FrequencyBandAnalysis['status'];
+}
+
+export interface PersistingIssue {
+  before: MixIssue;
+  after: MixIssue;
+}
+
+export interface MetricChange {
+  label: string;
+  unit: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface RevisionDiff {
+  scoreBefore: number | null;
+  scoreAfter: number | null;
+  balance: BalanceChange[];
+  resolved: MixIssue[];
+  persisting: PersistingIssue[];
+  introduced: MixIssue[];
+  loudness: MetricChange[];
+  spectrum: SpectrumProfile | null;  // after - before, level-aligned
+}
+
+const regionsOverlap = (a: MixIssue, b: MixIssue): boolean => {
+  const ra = parseFrequencyRange(a.frequency);
+  const rb = parseFrequencyRange(b.frequency);
+  // Broadband issues only match other broadband issues
+  if (!ra || !rb) return !ra && !rb;
+  return ra[0] <= rb[1] && rb[0] <= ra[1];
+};
+
+const tokens = (text: string): Set<string> => {
+  return new Set(
+    text.toLowerCase()
+      .replace(/\([^)]*\)/g, ' ') // Drop measured values like "(+4.1dB vs target)"
+      .split(/[^a-z]+/)
+      .filter(t => t.length > 2 && !STOP_WORDS.has(t))
+  );
+};
+
+/** Jaccard overlap of the issue wording. */
+const textSimilarity = (a: MixIssue, b: MixIssue): number => {
+  const ta = tokens(a.issue);
+  const tb = tokens(b.issue);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+/** Pairs issues greedily, best wording match first, among those in the same frequency region. */
+const matchIssues = (before: MixIssue[], after: MixIssue[]) => {
+  const candidates: { i: number; j: number; score: number }[] = [];
+  before.forEach((a, i) => {
+    after.forEach((b, j) => {
+      if (!regionsOverlap(a, b)) return;
+      const score = textSimilarity(a, b);
+      if (score >= MIN_TEXT_SIMILARITY) candidates.push({ i, j, score });
+    });
+  });
+  candidates.sort((x, y) => y.score - x.score);
+
+  const usedBefore = new Set<number>();
+  const usedAfter = new Set<number>();
+  const persisting: PersistingIssue[] = [];
+  candidates.forEach(({ i, j }) => {
+    if (usedBefore.has(i) || usedAfter.has(j)) return;
+    usedBefore.add(i);
+    usedAfter.add(j);
+    persisting.push({ before: before[i], after: after[j] });
+  });
+
+  return {
+    persisting,
+    resolved: before.filter((_, i) => !usedBefore.has(i)),
+    introduced: after.filter((_, j) => !usedAfter.has(j)),
+  };
+};
+
+const loudnessChanges = (before: Revision, after: Revision): MetricChange[] => {
+  if (!before.loudness || !after.loudness) return [];
+  const a = before.loudness;
+  const b = after.loudness;
+  const metric = (label: string, unit: string, x: number, y: number): MetricChange => ({ label, unit, before: x, after: y, delta: y - x });
+  return [
+    metric('Integrated', 'LUFS', a.integrated, b.integrated),
+    metric('Short-term max', 'LUFS', a.shortTermMax, b.shortTermMax),
+    metric('Loudness range', 'LU', a.loudnessRange, b.loudnessRange),
+    metric('True peak', 'dBTP', a.truePeak, b.truePeak),
+    metric('PLR', 'dB', a.truePeak - a.integrated, b.truePeak - b.integrated),
+  ];
+};
+
+export const diffRevisions = (before: Revision, after: Revision): RevisionDiff => {
+  const beforeAnalysis = before.analysis;
+  const afterAnalysis = after.analysis;
+
+  const balance: BalanceChange[] = beforeAnalysis && afterAnalysis
+    ? (['low', 'mid', 'high'] as const).map(key => ({
+        band: afterAnalysis.mixBalance[key].band,
+        before: beforeAnalysis.mixBalance[key].status,
+        after: afterAnalysis.mixBalance[key].status,
+      }))
+    : [];
+
+  const issues = matchIssues(beforeAnalysis?.actionableFixes ?? [], afterAnalysis?.actionableFixes ?? []);
+
+  return {
+    scoreBefore: beforeAnalysis?.masteringScore ?? null,
+    scoreAfter: afterAnalysis?.masteringScore ?? null,
+    balance,
+    ...issues,
+    loudness: loudnessChanges(before, after),
+    spectrum: before.spectrum && after.spectrum ? alignedDifference(after.spectrum, before.spectrum) : null,
+  };
+};
@@ -0,0 +1,176 @@
+/**
+ * RøcAudio Section Detector
+ * Splits a song into sections from timbre novelty (Foote checkerboard kernel over a
+ * self-similarity of octave-band energies), then compares each section's balance
+ * with the song as a whole.
+ */
+
+import { FrequencyBandAnalysis, SongSection, SpectrumProfile } from '../types';
+import { createSpectrumFrame, renderMono } from './fft';
+import { alignedDifference, bandMean, computeLongTermSpectrum } from './spectrum';
+import { DEFAULT_CROSSOVER, formatHz } from './crossover';
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 2048;
+const HOP_SECONDS = 0.5;
+const KERNEL_HALF = 8;              // frames each side, i.e. 4s of context
+const MIN_SECTION_SECONDS = 8;
+const MAX_SECTIONS = 12;
+const PEAK_THRESHOLD_STD = 0.5;     // novelty peaks must clear mean + this many std
+const BAND_EDGES_HZ = [40, 80, 160, 320, 640, 1280, 2560, 5120];
+const BALANCE_TOLERANCE_DB = 2;
+
+/** Log energy per octave band, plus overall level, one vector per hop. */
+const extractFeatures = (samples: Float32Array): { features: number[][]; levels: number[] } => {
+  const frame = createSpectrumFrame(FRAME_SIZE);
+  const binHz = frame.binHz(ANALYSIS_RATE);
+  const mags = new Float32Array(FRAME_SIZE / 2);
+  const hop = Math.round(HOP_SECONDS * ANALYSIS_RATE);
+  const features: number[][] = [];
+  const levels: number[] = [];
+
+  for (let offset = 0; offset + FRAME_SIZE <= samples.length; offset += hop) {
+    frame.magnitudes(samples, offset, mags);
+    const bands = BAND_EDGES_HZ.map((lo, b) => {
+      const hi = b + 1 < BAND_EDGES_HZ.length ? BAND_EDGES_HZ[b + 1] : ANALYSIS_RATE / 2;
+      let sum = 0;
+      for (let k = Math.ceil(lo / binHz); k < Math.min(mags.length, hi / binHz); k++) sum += mags[k] * mags[k];
+      return 10 * Math.log10(sum + 1e-10);
+    });
+    const total = 10 * Math.log10(bands.reduce((acc, db) => acc + Math.pow(10, db / 10), 0));
+    // Shape (band minus overall) separates timbre from level; level gets its own dimension
+    features.push([...bands.map(db => db - total), total / 2]);
+    levels.push(total);
+  }
+  return { features, levels };
+};
+
+/** Z-scores every dimension so no single band dominates the distance. */
+const standardize = (features: number[][]) => {
+  if (features.length === 0) return;
+  const dims = features[0].length;
+  for (let d = 0; d < dims; d++) {
+    let mean = 0;
+    features.forEach(f => { mean += f[d]; });
+    mean /= features.length;
+    let variance = 0;
+    features.forEach(f => { variance += (f[d] - mean) ** 2; });
+    const std = Math.sqrt(variance / features.length) || 1;
+    features.forEach(f => { f[d] = (f[d] - mean) / std; });
+  }
+};
+
+const similarity = (a: number[], b: number[]) => {
+  let dot = 0, na = 0, nb = 0;
+  for (let d = 0; d < a.length; d++) {
+    dot += a[d] * b[d];
+    na += a[d] * a[d];
+    nb += b[d] * b[d];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+};
+
+const noveltyCurve = (features: number[][]): number[] => {
+  const n = features.length;
+  const novelty = new Array(n).fill(0);
+  const taper = (i: number) => Math.exp(-0.5 * ((i + 0.5) / (KERNEL_HALF / 2)) ** 2);
+
+  for (let i = KERNEL_HALF; i < n - KERNEL_HALF; i++) {
+    let sum = 0;
+    for (let a = -KERNEL_HALF; a < KERNEL_HALF; a++) {
+      for (let b = -KERNEL_HALF; b < KERNEL_HALF; b++) {
+        const sign = (a < 0) === (b < 0) ? 1 : -1;
+        const weight = taper(a < 0 ? -a - 1 : a) * taper(b < 0 ? -b - 1 : b);
+        sum += sign * weight * similarity(features[i + a], features[i + b]);
+      }
+    }
+    novelty[i] = Math.max(0, sum);
+  }
+  return novelty;
+};
+
+/** Strongest novelty peaks, at least MIN_SECTION_SECONDS apart and from the ends. */
+const pickBoundaries = (novelty: number[]): number[] => {
+  const minGap = Math.round(MIN_SECTION_SECONDS / HOP_SECONDS);
+  const mean = novelty.reduce((a, b) => a + b, 0) / Math.max(1, novelty.length);
+  const std = Math.sqrt(novelty.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, novelty.length));
+  const threshold = mean + PEAK_THRESHOLD_STD * std;
+
+  const peaks: number[] = [];
+  for (let i = 1; i < novelty.length - 1; i++) {
+    if (novelty[i] > threshold && novelty[i] >= novelty[i - 1] && novelty[i] > novelty[i + 1]) peaks.push(i);
+  }
+  peaks.sort((a, b) => novelty[b] - novelty[a]);
+
+  const chosen: number[] = [];
+  for (const p of peaks) {
+    if (chosen.length >= MAX_SECTIONS - 1) break;
+    if (p < minGap || p > novelty.length - minGap) continue;
+    if (chosen.some(c => Math.abs(c - p) < minGap)) continue;
+    chosen.push(p);
+  }
+  return chosen.sort((a, b) => a - b);
+};
+
+/** Intro/outro by position, then louder sections read as choruses and quieter ones as verses. */
+const labelSections = (ranges: [number, number][], levels: number[]): string[] => {
+  const meanLevel = ranges.map(([s, e]) => {
+    const slice = levels.slice(Math.floor(s / HOP_SECONDS), Math.max(Math.floor(s / HOP_SECONDS) + 1, Math.floor(e / HOP_SECONDS)));
+    return slice.reduce((a, b) => a + b, 0) / Math.max(1, slice.length);
+  });
+  // Time-weighted: half the song is louder than this
+  const sorted = [...levels].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  const counts: Record<string, number> = {};
+  return ranges.map((_, i) => {
+    let base: string;
+    if (ranges.length > 2 && i === 0 && meanLevel[i] < median) base = 'Intro';
+    else if (ranges.length > 2 && i === ranges.length - 1 && meanLevel[i] < median) base = 'Outro';
+    else base = meanLevel[i] >= median ? 'Chorus' : 'Verse';
+    counts[base] = (counts[base] ?? 0) + 1;
+    return base === 'Intro' || base === 'Outro' ? base : `${base} ${counts[base]}`;
+  });
+};
+
+const bandStatus = (band: FrequencyBandAnalysis['band'], deviation: SpectrumProfile, lowHz: number, highHz: number): FrequencyBandAnalysis => {
+  const db = bandMean(deviation, lowHz, highHz);
+  return {
+    band,
+    status: db > BALANCE_TOLERANCE_DB ? 'Cut' : db < -BALANCE_TOLERANCE_DB ? 'Boost' : 'Good',
+    description: `${formatHz(lowHz)} - ${formatHz(highHz)} ${db >= 0 ? '+' : ''}${db.toFixed(1)}dB vs the rest of the song`,
+  };
+};
+
+export const detectSections = async (buffer: AudioBuffer, songSpectrum: SpectrumProfile | null = null): Promise<SongSection[]> => {
+  const mono = await renderMono(buffer, ANALYSIS_RATE);
+  const { features, levels } = extractFeatures(mono);
+  standardize(features);
+
+  const boundaries = pickBoundaries(noveltyCurve(features)).map(i => i * HOP_SECONDS);
+  const edges = [0, ...boundaries, buffer.duration];
+  const ranges = edges.slice(0, -1).map((start, i) => [start, edges[i + 1]] as [number, number]);
+  const labels = labelSections(ranges, levels);
+
+  const song = songSpectrum ?? computeLongTermSpectrum(buffer);
+  const [lowSplit, highSplit] = DEFAULT_CROSSOVER;
+
+  return ranges.map(([start, end], i) => {
+    const deviation = alignedDifference(computeLongTermSpectrum(buffer, start, end), song);
+    return {
+      label: labels[i],
+      start,
+      end,
+      balance: {
+        low: bandStatus('Low', deviation, 20, lowSplit),
+        mid: bandStatus('Mid', deviation, lowSplit, highSplit),
+        high: bandStatus('High', deviation, highSplit, 20000),
+      },
+    };
+  });
+};
+
+/** The section containing a moment, if any. */
+export const sectionAt = (sections: SongSection[], time: number): SongSection | undefined => {
+  return sections.find(s => time >= s.start && time < s.end);
+};
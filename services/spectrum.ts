@@ -0,0 +1,130 @@
+/**
+ * RøcAudio Long-Term Spectrum
+ * Long-term average spectrum (LTAS) of a whole buffer in 1/3-octave bands.
+ */
+
+import { SpectrumProfile } from '../types';
+import { createSpectrumFrame } from './fft';
+
+export const SPECTRUM_MIN_HZ = 20;
+export const SPECTRUM_MAX_HZ = 20000;
+export const SPECTRUM_GRID_HZ = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+const FFT_SIZE = 8192;
+const MAX_FRAMES = 2000; // Evenly spread frames cap the cost on very long files
+const SILENCE_DB = -120;
+// Level alignment uses the musically dense region, ignoring sub rumble & extreme air
+export const ALIGN_LOW_HZ = 100;
+export const ALIGN_HIGH_HZ = 10000;
+// Tilt is fitted from the bottom of the kick to the top of the presence range
+const TILT_LOW_HZ = 50;
+const TILT_HIGH_HZ = 10000;
+
+// ISO 266 1/3-octave centres from ~20Hz to ~20kHz (1kHz * 2^(n/3))
+export const THIRD_OCTAVE_CENTRES = Array.from({ length: 31 }, (_, i) => 1000 * Math.pow(2, (i - 17) / 3));
+
+/** Position of a frequency on the shared 20Hz-20kHz log axis, 0 to 1. */
+export const frequencyToPosition = (freq: number): number => {
+  const clamped = Math.max(SPECTRUM_MIN_HZ, Math.min(SPECTRUM_MAX_HZ, freq));
+  return Math.log(clamped / SPECTRUM_MIN_HZ) / Math.log(SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ);
+};
+
+/** Frequency at a position on the shared log axis; inverse of frequencyToPosition. */
+export const positionToFrequency = (position: number): number => {
+  const clamped = Math.max(0, Math.min(1, position));
+  return SPECTRUM_MIN_HZ * Math.pow(SPECTRUM_MAX_HZ / SPECTRUM_MIN_HZ, clamped);
+};
+
+const toDb = (power: number) => (power > 0 ? 10 * Math.log10(power) : SILENCE_DB);
+
+/** LTAS of the whole buffer, or of the [start, end) range in seconds. */
+export const computeLongTermSpectrum = (buffer: AudioBuffer, start: number = 0, end: number = buffer.duration): SpectrumProfile => {
+  const frame = createSpectrumFrame(FFT_SIZE);
+  const bins = FFT_SIZE / 2;
+  const binHz = frame.binHz(buffer.sampleRate);
+  const mags = new Float32Array(bins);
+  const power = new Float64Array(bins);
+
+  // Mono downmix of the range
+  const first = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const last = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const mono = new Float32Array(Math.max(0, last - first));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[first + i] / buffer.numberOfChannels;
+  }
+
+  const available = Math.max(1, Math.floor(mono.length / FFT_SIZE));
+  const frames = Math.min(available, MAX_FRAMES);
+  const stride = available / frames;
+
+  for (let f = 0; f < frames; f++) {
+    frame.magnitudes(mono, Math.floor(f * stride) * FFT_SIZE, mags);
+    for (let k = 0; k < bins; k++) power[k] += mags[k] * mags[k];
+  }
+
+  const levels = THIRD_OCTAVE_CENTRES.map(centre => {
+    const lo = centre * Math.pow(2, -1 / 6);
+    const hi = centre * Math.pow(2, 1 / 6);
+    let sum = 0;
+    for (let k = Math.max(1, Math.ceil(lo / binHz)); k <= Math.min(bins - 1, Math.floor(hi / binHz)); k++) {
+      sum += power[k];
+    }
+    // Bands narrower than one bin (lowest octaves): fall back to the nearest bin
+    if (sum === 0) sum = power[Math.min(bins - 1, Math.max(1, Math.round(centre / binHz)))];
+    return toDb(sum / frames);
+  });
+
+  return { frequencies: [...THIRD_OCTAVE_CENTRES], levels };
+};
+
+/** Returns a copy of the profile shifted by a gain in dB (e.g. loudness-match trim). */
+export const offsetSpectrum = (profile: SpectrumProfile, db: number): SpectrumProfile => ({
+  frequencies: profile.frequencies,
+  levels: profile.levels.map(l => l + db),
+});
+
+export const spectrumDifference = (a: SpectrumProfile, b: SpectrumProfile): SpectrumProfile => ({
+  frequencies: a.frequencies,
+  levels: a.levels.map((l, i) => l - (b.levels[i] ?? l)),
+});
+
+/** Mean level of the bands whose centre lies in [lowHz, highHz). */
+export const bandMean = (profile: SpectrumProfile, lowHz: number, highHz: number): number => {
+  let sum = 0;
+  let count = 0;
+  profile.frequencies.forEach((freq, i) => {
+    if (freq < lowHz || freq >= highHz) return;
+    sum += profile.levels[i];
+    count++;
+  });
+  return count > 0 ? sum / count : 0;
+};
+
+/** a - b with the overall level difference removed, so only tonal changes remain. */
+export const alignedDifference = (a: SpectrumProfile, b: SpectrumProfile): SpectrumProfile => {
+  const raw = spectrumDifference(a, b);
+  const offset = bandMean(raw, ALIGN_LOW_HZ, ALIGN_HIGH_HZ);
+  return { frequencies: raw.frequencies, levels: raw.levels.map(d => d - offset) };
+};
+
+/** Least-squares slope of the band levels against octaves, in dB/octave; more negative = darker. */
+export const spectralTilt = (profile: SpectrumProfile, lowHz: number = TILT_LOW_HZ, highHz: number = TILT_HIGH_HZ): number => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  profile.frequencies.forEach((freq, i) => {
+    if (freq < lowHz || freq >= highHz) return;
+    xs.push(Math.log2(freq));
+    ys.push(profile.levels[i]);
+  });
+  if (xs.length < 2) return 0;
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return variance > 0 ? covariance / variance : 0;
+};
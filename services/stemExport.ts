@@ -0,0 +1,41 @@
+/**
+ * RøcAudio Stem Bounce
+ * Renders a single crossover band offline and writes it to WAV.
+ */
+
+import { createStemBand } from './crossover';
+import { StemControl } from '../types';
+import { encodeWav, downloadBlob, WavBitDepth } from './wavEncoder';
+
+export interface StemExportOptions {
+  bitDepth: WavBitDepth;
+  gain?: number; // Fader gain to bake in (1 = unity)
+}
+
+export const renderStem = async (buffer: AudioBuffer, bandIndex: number, crossover: number[], gain: number = 1): Promise<AudioBuffer> => {
+  // Render at the source rate and length so the bounce lines up sample-for-sample with the mix
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+
+  const band = createStemBand(offline, bandIndex, crossover);
+  const gainNode = offline.createGain();
+  gainNode.gain.value = gain;
+
+  source.connect(band.input);
+  band.output.connect(gainNode);
+  gainNode.connect(offline.destination);
+
+  source.start(0);
+  return offline.startRendering();
+};
+
+export const exportStemWav = async (buffer: AudioBuffer, stem: StemControl, crossover: number[], sourceName: string, options: StemExportOptions) => {
+  const rendered = await renderStem(buffer, stem.index, crossover, options.gain ?? 1);
+  const blob = encodeWav(rendered, options.bitDepth);
+
+  const baseName = sourceName.replace(/\.[^/.]+$/, '') || 'mix';
+  const depthLabel = options.bitDepth === 32 ? '32f' : `${options.bitDepth}bit`;
+  downloadBlob(blob, `${baseName}_${stem.id.toUpperCase()}_${stem.lowHz}-${stem.highHz}Hz_${depthLabel}.wav`);
+};
@@ -0,0 +1,164 @@
+/**
+ * RøcAudio Stereo Analyzer
+ * Phase correlation, mid/side balance and per-band width on a decoded AudioBuffer.
+ */
+
+import { StereoMetrics, StereoPassage } from '../types';
+import { createStemBand } from './crossover';
+
+const HOP_SECONDS = 0.1;
+const WINDOW_HOPS = 4;            // 400ms correlation window
+const SILENCE_POWER = 1e-7;       // ~ -70 dBFS, windows below this are not judged
+const MIN_PASSAGE_SECONDS = 0.3;
+
+interface HopSums {
+  ll: number[];
+  rr: number[];
+  lr: number[];
+}
+
+const hopSums = (left: Float32Array, right: Float32Array, hopSize: number): HopSums => {
+  const numHops = Math.floor(left.length / hopSize);
+  const sums: HopSums = { ll: [], rr: [], lr: [] };
+
+  for (let h = 0; h < numHops; h++) {
+    let ll = 0, rr = 0, lr = 0;
+    const start = h * hopSize;
+    for (let i = start; i < start + hopSize; i++) {
+      const l = left[i];
+      const r = right[i];
+      ll += l * l;
+      rr += r * r;
+      lr += l * r;
+    }
+    sums.ll.push(ll);
+    sums.rr.push(rr);
+    sums.lr.push(lr);
+  }
+  return sums;
+};
+
+const correlationOf = (ll: number, rr: number, lr: number, count: number): number => {
+  // Silence is trivially mono-compatible
+  if (ll / count < SILENCE_POWER && rr / count < SILENCE_POWER) return 1;
+  const denom = Math.sqrt(ll * rr);
+  return denom > 0 ? lr / denom : 1;
+};
+
+const correlationSeries = (sums: HopSums, hopSize: number): number[] => {
+  const series: number[] = [];
+  for (let h = WINDOW_HOPS - 1; h < sums.ll.length; h++) {
+    let ll = 0, rr = 0, lr = 0;
+    for (let k = h - WINDOW_HOPS + 1; k <= h; k++) {
+      ll += sums.ll[k];
+      rr += sums.rr[k];
+      lr += sums.lr[k];
+    }
+    series.push(correlationOf(ll, rr, lr, WINDOW_HOPS * hopSize));
+  }
+  return series;
+};
+
+const findNegativePassages = (series: number[]): StereoPassage[] => {
+  const passages: StereoPassage[] = [];
+  // Series index i covers the window ending at hop (i + WINDOW_HOPS - 1)
+  const windowStart = (i: number) => i * HOP_SECONDS;
+  const windowEnd = (i: number) => (i + WINDOW_HOPS) * HOP_SECONDS;
+
+  let current: StereoPassage | null = null;
+  for (let i = 0; i < series.length; i++) {
+    const c = series[i];
+    if (c < 0) {
+      if (!current) {
+        current = { start: windowStart(i), end: windowEnd(i), minCorrelation: c };
+      } else {
+        current.end = windowEnd(i);
+        current.minCorrelation = Math.min(current.minCorrelation, c);
+      }
+    } else if (current) {
+      if (current.end - current.start >= MIN_PASSAGE_SECONDS) passages.push(current);
+      current = null;
+    }
+  }
+  if (current && current.end - current.start >= MIN_PASSAGE_SECONDS) passages.push(current);
+  return passages;
+};
+
+// Side share of total energy: 0 = mono, 0.5 = uncorrelated, 1 = fully out of phase
+const sideShare = (left: Float32Array, right: Float32Array): number => {
+  let mid = 0, side = 0;
+  for (let i = 0; i < left.length; i++) {
+    const m = left[i] + right[i];
+    const s = left[i] - right[i];
+    mid += m * m;
+    side += s * s;
+  }
+  const total = mid + side;
+  return total > 0 ? side / total : 0;
+};
+
+const renderBand = async (buffer: AudioBuffer, bandIndex: number, crossover: number[]): Promise<AudioBuffer> => {
+  const offline = new OfflineAudioContext(2, buffer.length, buffer.sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  const band = createStemBand(offline, bandIndex, crossover);
+  source.connect(band.input);
+  band.output.connect(offline.destination);
+  source.start(0);
+  return offline.startRendering();
+};
+
+export const analyzeStereo = async (buffer: AudioBuffer, crossover: number[]): Promise<StereoMetrics> => {
+  const hopSize = Math.round(buffer.sampleRate * HOP_SECONDS);
+
+  if (buffer.numberOfChannels < 2) {
+    const numHops = Math.floor(buffer.length / hopSize);
+    return {
+      isMono: true,
+      correlation: 1,
+      correlationSeries: new Array(Math.max(0, numHops - WINDOW_HOPS + 1)).fill(1),
+      hopSeconds: HOP_SECONDS,
+      midSideRatio: Infinity,
+      crossover: [...crossover],
+      bandWidth: new Array(crossover.length + 1).fill(0),
+      negativePassages: [],
+    };
+  }
+
+  const left = buffer.getChannelData(0);
+  const right = buffer.getChannelData(1);
+
+  const sums = hopSums(left, right, hopSize);
+  const series = correlationSeries(sums, hopSize);
+
+  let ll = 0, rr = 0, lr = 0;
+  for (let h = 0; h < sums.ll.length; h++) {
+    ll += sums.ll[h];
+    rr += sums.rr[h];
+    lr += sums.lr[h];
+  }
+  const correlation = correlationOf(ll, rr, lr, sums.ll.length * hopSize);
+
+  // M = (L+R)/2, S = (L-R)/2  ->  energies expand from the channel sums
+  const midEnergy = (ll + rr + 2 * lr) / 4;
+  const sideEnergy = (ll + rr - 2 * lr) / 4;
+  const midSideRatio = sideEnergy > 0 ? 10 * Math.log10(midEnergy / sideEnergy) : Infinity;
+
+  // Reduce each band as soon as it renders, so only one full-length band is held at a time
+  const bandWidth: number[] = [];
+  for (let i = 0; i <= crossover.length; i++) {
+    const band = await renderBand(buffer, i, crossover);
+    bandWidth.push(sideShare(band.getChannelData(0), band.getChannelData(1)));
+  }
+
+  return {
+    isMono: false,
+    correlation,
+    correlationSeries: series,
+    hopSeconds: HOP_SECONDS,
+    midSideRatio,
+    crossover: [...crossover],
+    bandWidth,
+    negativePassages: findNegativePassages(series),
+  };
+};
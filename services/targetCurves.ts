@@ -0,0 +1,130 @@
+/**
+ * RøcAudio Target Curves
+ * Genre tonal-balance targets as dB-per-frequency anchor points (1/3-octave band power).
+ * Shapes are relative: they are level-aligned to the measured mix before comparison.
+ */
+
+import { SpectrumProfile } from '../types';
+import { ALIGN_HIGH_HZ, ALIGN_LOW_HZ } from './spectrum';
+
+export interface TargetCurve {
+  id: string;
+  name: string;
+  aliases: string[];          // Genre words that imply this curve, matched as whole words
+  points: [number, number][]; // [Hz, dB], ascending frequency
+}
+
+// Typical commercial-mix tilt in 1/3-octave band power
+const NEUTRAL: [number, number][] = [
+  [20, -10], [40, -2], [60, 0], [120, 0], [250, -2], [500, -4.5],
+  [1000, -7], [2000, -10], [4000, -13], [8000, -17], [16000, -25], [20000, -32],
+];
+
+const shape = (adjust: (hz: number) => number): [number, number][] => {
+  return NEUTRAL.map(([hz, db]) => [hz, db + adjust(hz)]);
+};
+
+export const TARGET_CURVES: TargetCurve[] = [
+  {
+    id: 'v-shape',
+    name: 'V-Shape',
+    aliases: ['trap', 'hip hop', 'electronic', 'edm'],
+    // Heavier lows and air, scooped mids
+    points: shape(hz => (hz <= 120 ? 3 : hz <= 500 ? 0 : hz <= 3000 ? -2 : hz <= 8000 ? 0 : 2)),
+  },
+  {
+    id: 'mid-forward',
+    name: 'Mid-Forward',
+    aliases: ['rock', 'guitar'],
+    points: shape(hz => (hz <= 120 ? -2 : hz <= 500 ? 0 : hz <= 3000 ? 2 : hz <= 8000 ? 1 : -1)),
+  },
+  {
+    id: 'warm',
+    name: 'Warm',
+    aliases: ['jazz', 'soul', 'r&b'],
+    // Full lows, rolled-off top
+    points: shape(hz => (hz <= 250 ? 2 : hz <= 2000 ? 0 : hz <= 8000 ? -2 : -4)),
+  },
+  {
+    id: 'pop',
+    name: 'Pop / Fletcher-Munson',
+    aliases: ['pop', 'mainstream'],
+    points: shape(hz => (hz <= 120 ? 2 : hz <= 500 ? 0 : hz <= 3000 ? -1 : hz <= 8000 ? 0.5 : 2)),
+  },
+  {
+    id: 'flat',
+    name: 'Neutral',
+    aliases: ['flat'],
+    points: NEUTRAL,
+  },
+];
+
+const words = (text: string): string => text.toLowerCase().replace(/[^a-z0-9&]+/g, ' ').trim();
+
+const hasPhrase = (text: string, phrase: string): boolean => ` ${text} `.includes(` ${phrase} `);
+
+// Every way to name a curve, longest first so "hip hop" wins over a bare genre word
+const CURVE_NAMES = TARGET_CURVES
+  .flatMap(curve => [curve.id, curve.name, ...curve.aliases].map(name => ({ curve, name: words(name) })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+/**
+ * Picks the target for the model's suggested preset name, e.g. "V-Shape (Trap)":
+ * the curve named before any parenthesis, else the longest whole-word name or
+ * genre alias anywhere in it, else neutral.
+ */
+export const resolveTargetCurve = (presetName: string): TargetCurve => {
+  const flat = TARGET_CURVES.find(c => c.id === 'flat')!;
+  const text = words(presetName ?? '');
+  if (!text) return flat;
+
+  const head = words((presetName ?? '').replace(/\(.*$/, ''));
+  const named = CURVE_NAMES.find(({ name }) => name === head);
+  if (named) return named.curve;
+
+  return CURVE_NAMES.find(({ name }) => hasPhrase(text, name))?.curve ?? flat;
+};
+
+/** Interpolates the curve (linear in dB over log frequency) at the given frequencies. */
+export const sampleCurve = (curve: TargetCurve, frequencies: number[]): number[] => {
+  const pts = curve.points;
+  return frequencies.map(freq => {
+    if (freq <= pts[0][0]) return pts[0][1];
+    if (freq >= pts[pts.length - 1][0]) return pts[pts.length - 1][1];
+    for (let i = 1; i < pts.length; i++) {
+      const [f1, d1] = pts[i];
+      if (freq <= f1) {
+        const [f0, d0] = pts[i - 1];
+        const t = Math.log(freq / f0) / Math.log(f1 / f0);
+        return d0 + t * (d1 - d0);
+      }
+    }
+    return pts[pts.length - 1][1];
+  });
+};
+
+export interface TargetComparison {
+  measured: SpectrumProfile;   // Mix LTAS, shifted so its mean matches the target's
+  target: SpectrumProfile;
+  deviation: SpectrumProfile;  // measured - target, dB
+}
+
+export const compareToTarget = (spectrum: SpectrumProfile, curve: TargetCurve): TargetComparison => {
+  const targetLevels = sampleCurve(curve, spectrum.frequencies);
+
+  let offset = 0;
+  let count = 0;
+  spectrum.frequencies.forEach((freq, i) => {
+    if (freq < ALIGN_LOW_HZ || freq > ALIGN_HIGH_HZ) return;
+    offset += targetLevels[i] - spectrum.levels[i];
+    count++;
+  });
+  offset = count > 0 ? offset / count : 0;
+
+  const measuredLevels = spectrum.levels.map(l => l + offset);
+  return {
+    measured: { frequencies: spectrum.frequencies, levels: measuredLevels },
+    target: { frequencies: spectrum.frequencies, levels: targetLevels },
+    deviation: { frequencies: spectrum.frequencies, levels: measuredLevels.map((l, i) => l - targetLevels[i]) },
+  };
+};
@@ -0,0 +1,85 @@
+/**
+ * RøcAudio WAV Writer
+ * Encodes an AudioBuffer to a RIFF/WAVE file (16/24-bit PCM or 32-bit float).
+ */
+
+export type WavBitDepth = 16 | 24 | 32;
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth = 24): Blob => {
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const isFloat = bitDepth === 32;
+
+  const arrayBuffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(arrayBuffer);
+
+  // --- RIFF Header ---
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // --- fmt chunk ---
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, isFloat ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // --- data chunk ---
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < numChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+
+  // Interleave samples
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = channels[c][i];
+
+      if (isFloat) {
+        view.setFloat32(offset, sample, true);
+      } else {
+        const s = Math.max(-1, Math.min(1, sample));
+        if (bitDepth === 16) {
+          view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+        } else {
+          const v = Math.round(s < 0 ? s * 0x800000 : s * 0x7fffff);
+          view.setUint8(offset, v & 0xff);
+          view.setUint8(offset + 1, (v >> 8) & 0xff);
+          view.setUint8(offset + 2, (v >> 16) & 0xff);
+        }
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([arrayBuffer], { type: 'audio/wav' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
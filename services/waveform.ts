@@ -0,0 +1,58 @@
+/**
+ * RøcAudio Waveform Peaks
+ * Min/max overview computed once per buffer, then re-binned for any zoom level.
+ */
+
+import { WaveformPeaks } from '../types';
+
+const SAMPLES_PER_PEAK = 256;
+
+export const computePeaks = (buffer: AudioBuffer): WaveformPeaks => {
+  const numPeaks = Math.ceil(buffer.length / SAMPLES_PER_PEAK);
+  const min = new Float32Array(numPeaks).fill(1);
+  const max = new Float32Array(numPeaks).fill(-1);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let p = 0; p < numPeaks; p++) {
+      const start = p * SAMPLES_PER_PEAK;
+      const end = Math.min(start + SAMPLES_PER_PEAK, data.length);
+      let lo = min[p], hi = max[p];
+      for (let i = start; i < end; i++) {
+        const v = data[i];
+        if (v < lo) lo = v;
+        if (v > hi) hi = v;
+      }
+      min[p] = lo;
+      max[p] = hi;
+    }
+  }
+
+  return { min, max, samplesPerPeak: SAMPLES_PER_PEAK, duration: buffer.duration };
+};
+
+/**
+ * Collapses the peaks between two times into `columns` min/max pairs (one per pixel).
+ */
+export const binPeaks = (peaks: WaveformPeaks, startTime: number, endTime: number, columns: number): { min: Float32Array; max: Float32Array } => {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const total = peaks.min.length;
+  if (total === 0 || peaks.duration <= 0) return { min, max };
+
+  const peaksPerSecond = total / peaks.duration;
+  const span = endTime - startTime;
+
+  for (let col = 0; col < columns; col++) {
+    const from = Math.floor((startTime + (col / columns) * span) * peaksPerSecond);
+    const to = Math.max(from + 1, Math.floor((startTime + ((col + 1) / columns) * span) * peaksPerSecond));
+    let lo = 0, hi = 0;
+    for (let p = Math.max(0, from); p < Math.min(total, to); p++) {
+      if (peaks.min[p] < lo) lo = peaks.min[p];
+      if (peaks.max[p] > hi) hi = peaks.max[p];
+    }
+    min[col] = lo;
+    max[col] = hi;
+  }
+  return { min, max };
+};
@@ -3,14 +3,43 @@ export interface MixIssue {
   frequency: string;
   issue: string;
   fix: string;
+  start?: number; // seconds, where the issue is most audible
+  end?: number;   // seconds
+  eq?: EqMove;    // Structured version of `fix`, when it is an EQ move
+  userCreated?: boolean; // Marked by ear with the problem hunter, not by the analysis
+}
+
+/** One filter that approximates a suggested EQ fix, for auditioning. */
+export interface EqMove {
+  type: 'peaking' | 'lowshelf' | 'highshelf' | 'highpass';
+  frequency: number; // Hz
+  gain: number;      // dB; ignored for highpass
+  q: number;
+}
+
+/** Narrow band swept across the spectrum to find resonances by ear. */
+export interface HunterBand {
+  frequency: number; // Hz, centre
+  mode: 'boost' | 'solo';
 }
 
 export interface FrequencyBandAnalysis {
-  band: 'Low' | 'Low-Mid' | 'High-Mid' | 'High';
+  band: 'Low' | 'Mid' | 'High';
   status: 'Good' | 'Cut' | 'Boost';
   description: string;
 }
 
+export interface SongSection {
+  label: string;  // e.g. "Intro", "Chorus 2"
+  start: number;  // seconds
+  end: number;    // seconds
+  balance: {      // Relative to the whole song, not to a genre target
+    low: FrequencyBandAnalysis;
+    mid: FrequencyBandAnalysis;
+    high: FrequencyBandAnalysis;
+  };
+}
+
 export interface AudioAnalysis {
   genre: string;
   bpm: string | number;
@@ -27,6 +56,15 @@ export interface AudioAnalysis {
   referenceTracks: string[]; // "Sounds similar to..."
   actionableFixes: MixIssue[];
   summary: string;
+  sections?: SongSection[];
+  conversation?: ChatMessage[];  // Follow-up questions about this analysis
+}
+
+export interface ChatMessage {
+  role: 'user' | 'engineer';
+  text: string;
+  fixRefs?: number[];  // Indices into actionableFixes the reply talks about
+  createdAt: number;   // epoch ms
 }
 
 export interface AudioState {
@@ -37,8 +75,301 @@ export interface AudioState {
 }
 
 export interface StemControl {
-  id: 'low' | 'mid' | 'high';
+  id: string;
+  index: number;  // Band position in the crossover, 0 = lowest
   name: string;
-  color: string;
+  color: string;  // Tailwind background class
+  hex: string;    // Same colour for canvas drawing
+  lowHz: number;
+  highHz: number;
   frequencyRange: string;
-}
\ No newline at end of file
+}
+
+export interface LoudnessMetrics {
+  integrated: number;      // LUFS (gated, BS.1770-4)
+  shortTermMax: number;    // LUFS (3s window)
+  momentaryMax: number;    // LUFS (400ms window)
+  loudnessRange: number;   // LU (EBU Tech 3342)
+  truePeak: number;        // dBTP (4x oversampled)
+  samplePeak: number;      // dBFS
+  interSampleOvers: number; // Oversampled excursions above 0 dBFS, all channels
+  shortTerm: number[];     // LUFS per hop, for the loudness-over-time graph
+  momentary: number[];     // LUFS per hop
+  hopSeconds: number;      // Time between series points
+}
+
+export interface StereoPassage {
+  start: number;           // seconds
+  end: number;             // seconds
+  minCorrelation: number;  // most negative value inside the passage
+}
+
+export interface StereoMetrics {
+  isMono: boolean;
+  correlation: number;            // -1 to +1, whole track
+  correlationSeries: number[];    // per hop, for the correlation-over-time graph
+  hopSeconds: number;
+  midSideRatio: number;           // dB, mid energy over side energy
+  crossover: number[];            // Crossover frequencies the band widths were measured with
+  bandWidth: number[];            // Side share of each band's energy (0 = mono, 0.5 = uncorrelated, 1 = anti-phase)
+  negativePassages: StereoPassage[];
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0 to 1
+}
+
+export interface KeyEstimate {
+  key: string;        // e.g. "F# minor"
+  tonic: number;      // Pitch class, 0 = C
+  mode: 'major' | 'minor';
+  confidence: number; // 0 to 1
+}
+
+export interface MusicalMetrics {
+  tempo: TempoEstimate;
+  key: KeyEstimate;
+}
+
+/** How the audio is stored in the uploaded file, read from its header. */
+export interface SourceFormat {
+  container: 'wav' | 'aiff' | 'flac' | 'alac' | 'mp3' | 'aac' | 'ogg' | 'mp4' | 'unknown'; // 'mp4' = codec not found in the header
+  lossless: boolean;
+  sampleRate: number | null; // Hz as stored; decoding may resample to the context rate
+  bitDepth: number | null;   // Bits per sample as stored; null for lossy codecs
+  float: boolean;
+}
+
+/** Technical QC of the decoded mix, independent of any delivery profile. */
+export interface DeliveryMeasurements {
+  format: SourceFormat;
+  effectiveBitDepth: number | null;  // Bits the samples actually use, e.g. 16 in a padded 24-bit file
+  sampleExact: boolean;              // Decoded at the stored rate; otherwise the clip counts are approximate
+  duration: number;                  // seconds
+  clippedSamples: number;            // Samples at full scale, any channel
+  clipRuns: number;                  // Runs of consecutive full-scale samples long enough to count as clipping
+  longestClipRun: number;            // samples
+  firstClip: number | null;          // seconds
+  interSampleOvers: number;          // Oversampled excursions above 0 dBFS
+  truePeak: number;                  // dBTP
+  integrated: number;                // LUFS
+  dcOffset: number;                  // dBFS, worst channel
+  leadingSilence: number;            // seconds below the silence threshold
+  trailingSilence: number;           // seconds
+  lowCorrelation: number | null;     // L/R correlation below ~150Hz; null for mono
+}
+
+export type DeliveryProfileId = 'spotify' | 'apple' | 'youtube' | 'ebu-r128' | 'cd';
+
+export type QcStatus = 'pass' | 'warn' | 'fail';
+
+export interface QcCheck {
+  id: string;
+  label: string;
+  status: QcStatus;
+  detail: string;
+}
+
+export interface DeliveryReport {
+  profile: DeliveryProfileId;
+  checks: QcCheck[];
+  passed: boolean; // No check failed
+}
+
+export interface SpectrumProfile {
+  frequencies: number[]; // 1/3-octave band centres, Hz
+  levels: number[];      // dB per band (relative power, not dBFS)
+}
+
+export type PlaybackSource = 'mix' | 'reference';
+
+export type NormalizationPlatformId = 'spotify' | 'spotify-loud' | 'apple' | 'youtube' | 'tidal';
+
+/** Playback gain a streaming platform would apply to each source. */
+export interface PlaybackNormalization {
+  platform: NormalizationPlatformId;
+  mixGain: number;               // dB
+  referenceGain: number | null;  // dB; null without a measured reference
+  limiter: boolean;              // The platform limits after its gain (Spotify Loud)
+}
+
+export interface LoopRegion {
+  start: number; // seconds
+  end: number;   // seconds
+}
+
+export interface WaveformPeaks {
+  min: Float32Array;        // Per-block minimum across channels
+  max: Float32Array;        // Per-block maximum across channels
+  samplesPerPeak: number;
+  duration: number;
+}
+
+export interface AnalysisExcerpt {
+  label: 'full' | 'intro' | 'loudest' | 'drop';
+  start: number;  // seconds in the original track
+  end: number;    // seconds in the original track
+  offset: number; // seconds into the payload audio
+}
+
+/** Compact audio prepared for upload instead of the original file. */
+export interface AnalysisPayload {
+  blob: Blob;
+  mimeType: string;
+  sampleRate: number;
+  channels: number;
+  excerpts: AnalysisExcerpt[];
+  sourceDuration: number;  // seconds, original track
+}
+
+export type AnalysisStage = 'preparing' | 'reading' | 'waiting' | 'validating';
+
+/** The parts of a streamed analysis that have arrived so far. */
+export type PartialAnalysis = Partial<Pick<AudioAnalysis, 'genre' | 'bpm' | 'key' | 'masteringScore' | 'summary' | 'actionableFixes'>>;
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  partial?: PartialAnalysis;
+}
+
+/** Everything measured locally that a provider may use alongside the raw file. */
+export interface AnalysisInput {
+  file: File;
+  buffer: AudioBuffer;
+  loudness: LoudnessMetrics | null;
+  spectrum: SpectrumProfile | null;
+  stereo: StereoMetrics | null;
+  musical: MusicalMetrics | null;
+  sections: SongSection[] | null;
+  payload?: AnalysisPayload | null;  // Prepared upload, if the caller already built one
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/** A follow-up question, with the same local context the analysis was made from. */
+export interface ChatInput {
+  buffer: AudioBuffer;
+  loudness: LoudnessMetrics | null;
+  stereo: StereoMetrics | null;
+  payload?: AnalysisPayload | null;
+  analysis: AudioAnalysis;
+  history: ChatMessage[];  // Earlier turns, oldest first
+  message: string;
+  signal?: AbortSignal;
+}
+
+export type AnalysisProviderId = 'gemini' | 'offline';
+
+export type AnalysisErrorKind = 'no-key' | 'quota' | 'file-too-large' | 'network' | 'bad-payload' | 'cancelled' | 'unknown';
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  name: string;
+  description: string;
+  requiresNetwork: boolean;
+  isAvailable: () => boolean; // e.g. API key configured and browser online
+  analyze: (input: AnalysisInput) => Promise<AudioAnalysis>;
+  chat?: (input: ChatInput) => Promise<ChatMessage>;  // Only providers that can hold a conversation
+}
+
+export interface StemSettings {
+  crossover: number[];
+  volumes: Record<string, number>; // by StemControl.id
+  mutes: Record<string, boolean>;
+}
+
+export type MasteringSlotId = 'eq' | 'compressor' | 'limiter';
+
+export interface MasteringEqSettings {
+  bands: EqMove[];
+  bypass: boolean;
+}
+
+export interface MasteringCompressorSettings {
+  threshold: number; // dBFS
+  ratio: number;
+  attack: number;    // ms
+  release: number;   // ms
+  knee: number;      // dB
+  makeup: number;    // dB
+  bypass: boolean;
+}
+
+export interface MasteringLimiterSettings {
+  drive: number;     // dB of input gain into the limiter
+  ceiling: number;   // dBFS
+  release: number;   // ms
+  bypass: boolean;
+}
+
+/** Insert slots after the master fader, in signal order. */
+export interface MasteringChainSettings {
+  eq: MasteringEqSettings;
+  compressor: MasteringCompressorSettings;
+  limiter: MasteringLimiterSettings;
+}
+
+/** Saved settings for one slot; bypass is not part of a preset. */
+export type MasteringPreset = {
+  [S in MasteringSlotId]: {
+    id: string;
+    slot: S;
+    name: string;
+    settings: Omit<MasteringChainSettings[S], 'bypass'>;
+    createdAt: number; // epoch ms; 0 for built-ins
+  };
+}[MasteringSlotId];
+
+/** Which limiter the chain runs: the lookahead worklet, or a compressor stand-in where worklets can't load. */
+export type LimiterMode = 'loading' | 'lookahead' | 'fallback';
+
+/** How hard each slot is working, in dB. */
+export interface MasteringMeters {
+  eq: number;         // Output level change vs input (+ = louder)
+  compressor: number; // Gain reduction, <= 0
+  limiter: number;    // Gain reduction, <= 0
+}
+
+export type BatchTrackStatus = 'queued' | 'measuring' | 'analyzing' | 'done' | 'error' | 'cancelled';
+
+/** One song of an album/EP batch; fills in as the queue reaches it. */
+export interface BatchTrack {
+  id: string;
+  file: File;
+  hash: string | null;               // Revision the track is stored as, once hashed
+  status: BatchTrackStatus;
+  loudness: LoudnessMetrics | null;
+  spectrum: SpectrumProfile | null;
+  musical: MusicalMetrics | null;
+  analysis: AudioAnalysis | null;
+  error: string | null;
+}
+
+/** A song in the project library; holds any number of mix revisions. */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number;
+}
+
+/** One uploaded mix, keyed by a SHA-256 of the audio file. */
+export interface Revision {
+  hash: string;
+  projectId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  audio: Blob;
+  createdAt: number;
+  analysis: AudioAnalysis | null;
+  providerId: AnalysisProviderId | null;
+  loudness: LoudnessMetrics | null;
+  stereo: StereoMetrics | null;
+  musical: MusicalMetrics | null;
+  spectrum: SpectrumProfile | null;
+  sections: SongSection[] | null;
+  loop: LoopRegion | null;
+  stems: StemSettings;
+}